@@ -11,35 +11,65 @@ const pkg = require('./package.json')
 
 const libraryName = 'musquette'
 
-export default {
-  input: `src/${libraryName}.ts`,
-  output: [
-    { file: pkg.main, name: camelCase(libraryName), format: 'umd', sourcemap: true },
-    { file: pkg.module, format: 'es', sourcemap: true },
-  ],
-  // Indicate here external modules you don't wanna include in your bundle (i.e.: 'lodash')
-  external: [],
-  watch: {
-    include: 'src/**',
-  },
-  plugins: [
-    replace({
-      delimiters: ['', ''],
-       '#!/usr/bin/env node': ''
-    }),
-    nodeBuiltins(),
-    // Allow json resolution
-    json(),
-    // Compile TypeScript files
-    typescript({ useTsconfigDeclarationDir: true }),
-    // Allow bundling cjs modules (unlike webpack, rollup doesn't understand cjs)
-    commonjs(),
-    // Allow node_modules resolution, so you can use 'external' to control
-    // which external modules to include in the bundle
-    // https://github.com/rollup/rollup-plugin-node-resolve#usage
-    resolve(),
+const plugins = () => [
+  replace({
+    delimiters: ['', ''],
+     '#!/usr/bin/env node': ''
+  }),
+  nodeBuiltins(),
+  // Allow json resolution
+  json(),
+  // Compile TypeScript files
+  typescript({ useTsconfigDeclarationDir: true }),
+  // Allow bundling cjs modules (unlike webpack, rollup doesn't understand cjs)
+  commonjs(),
+  // Allow node_modules resolution, so you can use 'external' to control
+  // which external modules to include in the bundle
+  // https://github.com/rollup/rollup-plugin-node-resolve#usage
+  resolve(),
+
+  // Resolve source maps to the original source
+  sourceMaps(),
+]
 
-    // Resolve source maps to the original source
-    sourceMaps(),
-  ],
-}
+export default [
+  {
+    input: `src/${libraryName}.ts`,
+    output: [
+      { file: pkg.main, name: camelCase(libraryName), format: 'umd', sourcemap: true },
+      { file: pkg.module, format: 'es', sourcemap: true },
+    ],
+    // Indicate here external modules you don't wanna include in your bundle (i.e.: 'lodash')
+    external: [],
+    watch: {
+      include: 'src/**',
+    },
+    plugins: plugins(),
+  },
+  // musquette/testing imports the subject from the main bundle, so errors and
+  // subjects are the same classes in tests and in the code under test
+  {
+    input: 'src/testing.ts',
+    output: [
+      {
+        file: `dist/${libraryName}-testing.umd.js`,
+        name: camelCase(`${libraryName}-testing`),
+        format: 'umd',
+        sourcemap: true,
+        paths: { './musquette': libraryName },
+        globals: { './musquette': camelCase(libraryName) },
+      },
+      {
+        file: `dist/${libraryName}-testing.es5.js`,
+        format: 'es',
+        sourcemap: true,
+        paths: { './musquette': libraryName },
+      },
+    ],
+    external: ['./musquette'],
+    watch: {
+      include: 'src/**',
+    },
+    plugins: plugins(),
+  },
+]
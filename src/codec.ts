@@ -0,0 +1,69 @@
+import mqttWildcard from './mqtt-wildcard'
+
+export type Serializer<T> = (value: T) => Buffer
+export type Deserializer<T> = (message: Buffer) => T
+
+/**
+ * A pair of functions to convert payloads to and from the Buffers that are
+ * sent over the wire. Missing functions fall back to the next matching codec.
+ */
+export interface MQTTCodec<T> {
+  serializer?: Serializer<T>
+  deserializer?: Deserializer<T>
+}
+
+/** Codecs keyed by (wildcard) topic filter, e.g. `{ 'firmware/#': rawCodec }` */
+export interface MQTTCodecRules {
+  [filter: string]: MQTTCodec<any>
+}
+
+/**
+ * Encodes payloads as JSON. `undefined` is encoded as the empty payload that
+ * clears a retained message, and empty payloads are decoded as `undefined`.
+ */
+export const jsonCodec: MQTTCodec<any> = {
+  serializer: (value: any) =>
+    value === undefined ? Buffer.alloc(0) : Buffer.from(JSON.stringify(value)),
+  deserializer: (message: Buffer) => (message.length ? JSON.parse(message.toString()) : undefined)
+}
+
+export const stringCodec: MQTTCodec<string> = {
+  serializer: (value: string) => Buffer.from(value),
+  deserializer: (message: Buffer) => message.toString()
+}
+
+/** Passes payloads through as raw Buffers */
+export const rawCodec: MQTTCodec<Buffer> = {
+  serializer: (value: Buffer) => (Buffer.isBuffer(value) ? value : Buffer.from(value)),
+  deserializer: (message: Buffer) => message
+}
+
+/**
+ * Returns the codec for a concrete topic. The override (e.g. the options
+ * passed to `topic()`) takes precedence, then the first rule whose filter
+ * matches the topic, then the fallback.
+ */
+export function resolveCodec<T>(
+  topic: string,
+  fallback: MQTTCodec<T>,
+  rules?: MQTTCodecRules,
+  override?: MQTTCodec<T>
+): Required<MQTTCodec<T>> {
+  let rule: MQTTCodec<T> | undefined
+  if (rules) {
+    let filter = Object.keys(rules).find(filter => mqttWildcard(topic, filter) !== null)
+    rule = filter ? rules[filter] : undefined
+  }
+
+  let serializer: Serializer<T> | undefined
+  let deserializer: Deserializer<T> | undefined
+  for (let codec of [override, rule, fallback]) {
+    if (!codec) continue
+    serializer = serializer || codec.serializer
+    deserializer = deserializer || codec.deserializer
+  }
+
+  if (!serializer) throw new Error('Serializer is undefined')
+  if (!deserializer) throw new Error('Deserializer is undefined')
+  return { serializer, deserializer }
+}
@@ -0,0 +1,63 @@
+import { MqttClient as MQTTClient } from 'mqtt'
+
+/**
+ * Whether clients connecting with the options can be pooled by their JSON,
+ * which leaves out functions and objects such as agents or stores
+ */
+export function poolable(value: any): boolean {
+  if (value === null || typeof value !== 'object') {
+    return typeof value !== 'function'
+  }
+  if (Buffer.isBuffer(value)) {
+    return true
+  }
+  if (Array.isArray(value)) {
+    return value.every(poolable)
+  }
+  const prototype = Object.getPrototypeOf(value)
+  if (prototype !== Object.prototype && prototype !== null) {
+    return false
+  }
+  return Object.keys(value).every(key => poolable(value[key]))
+}
+
+interface Pooled {
+  client: MQTTClient
+  /** Subjects using the client */
+  refs: number
+}
+
+/**
+ * Clients keyed by the url and the options they connect with, so subjects
+ * with identical configs share one connection instead of kicking each other
+ * off with the same clientId. A client is ended once its last subject
+ * releases it. Clients are only pooled if `poolable()` accepts their
+ * options, as the key would not tell functions apart.
+ */
+export default class ConnectionPool {
+  private _pooled = new Map<string, Pooled>()
+
+  /** Number of clients in the pool */
+  get size() {
+    return this._pooled.size
+  }
+
+  /** Returns the client of the key, created if there is none */
+  acquire(key: string, create: () => MQTTClient): MQTTClient {
+    let pooled = this._pooled.get(key)
+    if (!pooled) {
+      pooled = { client: create(), refs: 0 }
+      this._pooled.set(key, pooled)
+    }
+    pooled.refs++
+    return pooled.client
+  }
+
+  /** Ends the client of the key if nothing else uses it */
+  release(key: string) {
+    const pooled = this._pooled.get(key)
+    if (!pooled || --pooled.refs > 0) return
+    this._pooled.delete(key)
+    pooled.client.end()
+  }
+}
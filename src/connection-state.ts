@@ -0,0 +1,48 @@
+import { IConnackPacket } from 'mqtt'
+
+export interface MQTTConnecting {
+  status: 'connecting'
+}
+
+export interface MQTTConnected {
+  status: 'connected'
+  /**
+   * The CONNACK packet sent by the broker, missing if the client of the
+   * config was connected before it was passed to the subject
+   */
+  connack?: IConnackPacket
+}
+
+export interface MQTTReconnecting {
+  status: 'reconnecting'
+  /** The number of the attempt, starting at 1 */
+  attempt: number
+  /** Milliseconds until the attempt, if it is scheduled by the subject */
+  delay?: number
+  /** The error the previous connection or attempt failed with */
+  error?: Error
+}
+
+export interface MQTTOffline {
+  status: 'offline'
+  /** The error the connection was lost with */
+  error?: Error
+}
+
+export interface MQTTDisconnecting {
+  status: 'disconnecting'
+}
+
+export interface MQTTClosed {
+  status: 'closed'
+  /** The error the subject gave up with, if any */
+  error?: Error
+}
+
+export type MQTTConnectionState =
+  | MQTTConnecting
+  | MQTTConnected
+  | MQTTReconnecting
+  | MQTTOffline
+  | MQTTDisconnecting
+  | MQTTClosed
@@ -0,0 +1,216 @@
+/**
+ * Stable codes of the errors musquette emits, also the prefix of their
+ * messages. Branch on `code` rather than on the message.
+ */
+export type MQTTErrorCode =
+  | 'CONNECTIONFAILED'
+  | 'CONNECTIONREFUSED'
+  | 'AUTHFAILED'
+  | 'SUBSCRIBEREJECTED'
+  | 'SUBSCRIBEFAILED'
+  | 'SUBSCRIBECONFLICT'
+  | MQTTPublishErrorCode
+  | 'STOREFAILED'
+  | 'SERIALIZATIONFAILED'
+  | 'DESERIALIZATIONFAILED'
+  | 'INVALIDTOPIC'
+  | 'INVALIDPAYLOAD'
+  | 'ERR_INVALID_ARG_TYPE'
+  | 'REQUESTFAILED'
+  | 'REQUESTTIMEOUT'
+
+/** Why a message was not published */
+export type MQTTPublishErrorCode =
+  | 'PUBLISHFAILED'
+  | 'PUBLISHTIMEOUT'
+  | 'NOTCONNECTED'
+  | 'PERSISTED'
+  | 'QUEUEFULL'
+  | 'QUEUEOVERFLOW'
+  | 'EXPIRED'
+
+/** The base class of the errors musquette emits */
+export class MQTTError extends Error {
+  name = 'MQTTError'
+
+  constructor(public code: MQTTErrorCode, message: string) {
+    super(`${code}: ${message}`)
+    Object.setPrototypeOf(this, MQTTError.prototype)
+  }
+}
+
+/** The connection to the broker failed or was lost, e.g. ECONNREFUSED */
+export class ConnectionError extends MQTTError {
+  name = 'ConnectionError'
+
+  constructor(public cause: Error) {
+    super('CONNECTIONFAILED', cause.message)
+    Object.setPrototypeOf(this, ConnectionError.prototype)
+  }
+}
+
+/** The broker refused the connection with the reason code of its CONNACK */
+export class ConnectionRefusedError extends MQTTError {
+  name = 'ConnectionRefusedError'
+
+  constructor(
+    public reasonCode: number,
+    public reason: string,
+    code: 'CONNECTIONREFUSED' | 'AUTHFAILED' = 'CONNECTIONREFUSED'
+  ) {
+    super(
+      code,
+      `Broker refused the connection with reason code 0x${reasonCode.toString(16)}: ${reason}`
+    )
+    Object.setPrototypeOf(this, ConnectionRefusedError.prototype)
+  }
+}
+
+/** The broker refused the credentials or the authorization of the client */
+export class AuthenticationError extends ConnectionRefusedError {
+  name = 'AuthenticationError'
+
+  constructor(reasonCode: number, reason: string) {
+    super(reasonCode, reason, 'AUTHFAILED')
+    Object.setPrototypeOf(this, AuthenticationError.prototype)
+  }
+}
+
+/** The broker refused a subscription, e.g. because of an ACL */
+export class SubscriptionRejectedError extends MQTTError {
+  name = 'SubscriptionRejectedError'
+
+  constructor(public topic: string, public reasonCode: number) {
+    super(
+      'SUBSCRIBEREJECTED',
+      `Broker rejected subscription to ${topic} with reason code 0x${reasonCode.toString(16)}`
+    )
+    Object.setPrototypeOf(this, SubscriptionRejectedError.prototype)
+  }
+}
+
+/** A SUBSCRIBE could not be sent or was not acknowledged, e.g. because of the session store */
+export class SubscriptionFailedError extends MQTTError {
+  name = 'SubscriptionFailedError'
+
+  constructor(public topic: string, public cause: Error) {
+    super('SUBSCRIBEFAILED', `Could not subscribe to ${topic}: ${cause.message}`)
+    Object.setPrototypeOf(this, SubscriptionFailedError.prototype)
+  }
+}
+
+/**
+ * A shared subscription overlaps another filter of the same connection, whose
+ * messages could not be told apart from its own
+ */
+export class SubscriptionConflictError extends MQTTError {
+  name = 'SubscriptionConflictError'
+
+  constructor(public topic: string, public conflicting: string) {
+    super(
+      'SUBSCRIBECONFLICT',
+      `Cannot subscribe to ${topic} and ${conflicting} on the same connection, their messages overlap`
+    )
+    Object.setPrototypeOf(this, SubscriptionConflictError.prototype)
+  }
+}
+
+/** A message was not published, `code` tells why, `cause` is the error of the client if any */
+export class PublishError extends MQTTError {
+  name = 'PublishError'
+
+  constructor(
+    public topic: string,
+    public code: MQTTPublishErrorCode,
+    message: string,
+    public cause?: Error
+  ) {
+    super(code, message)
+    Object.setPrototypeOf(this, PublishError.prototype)
+  }
+}
+
+/** The session could not be written to the store, `cause` is the error of the store */
+export class StoreError extends MQTTError {
+  name = 'StoreError'
+
+  constructor(public key: string, public cause: Error) {
+    super('STOREFAILED', `Could not write ${key} to the store: ${cause.message}`)
+    Object.setPrototypeOf(this, StoreError.prototype)
+  }
+}
+
+/** The serializer of a topic threw */
+export class SerializationError extends MQTTError {
+  name = 'SerializationError'
+
+  constructor(public topic: string, public value: any, public cause: Error) {
+    super('SERIALIZATIONFAILED', `Could not serialize the message on ${topic}: ${cause.message}`)
+    Object.setPrototypeOf(this, SerializationError.prototype)
+  }
+}
+
+/** The payload of an inbound message could not be deserialized */
+export class DeserializationError extends MQTTError {
+  name = 'DeserializationError'
+
+  constructor(public topic: string, public payload: Buffer, public cause: Error) {
+    super(
+      'DESERIALIZATIONFAILED',
+      `Could not deserialize the message on ${topic}: ${cause.message}`
+    )
+    Object.setPrototypeOf(this, DeserializationError.prototype)
+  }
+}
+
+/** A topic name or filter that violates the MQTT specification */
+export class InvalidTopicError extends MQTTError {
+  name = 'InvalidTopicError'
+
+  constructor(public topic: string, public reason: string) {
+    super('INVALIDTOPIC', `${reason}: ${JSON.stringify(topic)}`)
+    Object.setPrototypeOf(this, InvalidTopicError.prototype)
+  }
+}
+
+/** A payload was rejected by the validator of its topic */
+export class ValidationError extends MQTTError {
+  name = 'ValidationError'
+
+  constructor(
+    public topic: string,
+    public payload: any,
+    public reason: string,
+    public direction: 'inbound' | 'outbound'
+  ) {
+    super('INVALIDPAYLOAD', `Invalid ${direction} message on ${topic}: ${reason}`)
+    Object.setPrototypeOf(this, ValidationError.prototype)
+  }
+}
+
+/**
+ * Something other than an MQTTMessage was passed to `next()`, or the config
+ * combines options that cannot work together
+ */
+export class InvalidArgumentError extends MQTTError {
+  name = 'InvalidArgumentError'
+
+  constructor(message: string) {
+    super('ERR_INVALID_ARG_TYPE', message)
+    Object.setPrototypeOf(this, InvalidArgumentError.prototype)
+  }
+}
+
+/** A request failed on the responder's side or got no reply in time */
+export class RequestError extends MQTTError {
+  name = 'RequestError'
+
+  constructor(
+    public topic: string,
+    public code: 'REQUESTFAILED' | 'REQUESTTIMEOUT',
+    message: string
+  ) {
+    super(code, message)
+    Object.setPrototypeOf(this, RequestError.prototype)
+  }
+}
@@ -0,0 +1,90 @@
+import { MQTTStore } from './session-store'
+
+/**
+ * Persists the session in a directory with one file per entry (Node only).
+ * Files are synced to disk and replaced atomically, so neither a crash nor a
+ * power loss leaves a partial or missing entry behind once a write resolved.
+ */
+export default class FileStore implements MQTTStore {
+  // Required lazily so the browser bundle does not depend on fs
+  private _fs: typeof import('fs') = require('fs')
+  private _path: typeof import('path') = require('path')
+  private _ready?: Promise<void>
+
+  constructor(private _directory: string) {}
+
+  async put(key: string, value: string) {
+    await this._mkdir()
+    const file = this._file(key)
+    const fd = await this._call<number>(cb => this._fs.open(`${file}.tmp`, 'w', cb))
+    try {
+      await this._call<void>(cb => this._fs.writeFile(fd, value, cb))
+      await this._call<void>(cb => this._fs.fsync(fd, cb))
+    } finally {
+      await this._call<void>(cb => this._fs.close(fd, cb))
+    }
+    await this._call<void>(cb => this._fs.rename(`${file}.tmp`, file, cb))
+    await this._syncDirectory()
+  }
+
+  async del(key: string) {
+    try {
+      await this._call<void>(cb => this._fs.unlink(this._file(key), cb))
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error
+      return
+    }
+    await this._syncDirectory()
+  }
+
+  async entries(prefix: string) {
+    await this._mkdir()
+    const keys = (await this._call<string[]>(cb => this._fs.readdir(this._directory, cb)))
+      .filter(file => !/\.tmp$/.test(file))
+      .map(file => decodeURIComponent(file))
+      .filter(key => key.indexOf(prefix) === 0)
+      .sort()
+    const entries: [string, string][] = []
+    for (const key of keys) {
+      const value = await this._call<string>(cb => this._fs.readFile(this._file(key), 'utf8', cb))
+      entries.push([key, value])
+    }
+    return entries
+  }
+
+  private _file(key: string) {
+    return this._path.join(this._directory, encodeURIComponent(key))
+  }
+
+  /** Syncs the directory so renamed and deleted files survive a power loss */
+  private async _syncDirectory() {
+    let fd: number
+    try {
+      fd = await this._call<number>(cb => this._fs.open(this._directory, 'r', cb))
+    } catch (error) {
+      // Directories cannot be opened for syncing on Windows
+      if (error.code === 'EISDIR' || error.code === 'EPERM') return
+      throw error
+    }
+    try {
+      await this._call<void>(cb => this._fs.fsync(fd, cb))
+    } finally {
+      await this._call<void>(cb => this._fs.close(fd, cb))
+    }
+  }
+
+  private _mkdir() {
+    if (!this._ready) {
+      this._ready = this._call<void>(cb =>
+        this._fs.mkdir(this._directory, { recursive: true }, error => cb(error))
+      )
+    }
+    return this._ready
+  }
+
+  private _call<R>(run: (cb: (error: Error | null, result?: R) => void) => void): Promise<R> {
+    return new Promise((resolve, reject) =>
+      run((error, result) => (error ? reject(error) : resolve(result as R)))
+    )
+  }
+}
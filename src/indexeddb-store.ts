@@ -0,0 +1,70 @@
+import { MQTTStore } from './session-store'
+
+const ENTRIES = 'entries'
+
+const request = <R>(req: IDBRequest<R>) =>
+  new Promise<R>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+
+/** Persists the session in an IndexedDB database (browser only) */
+export default class IndexedDBStore implements MQTTStore {
+  private _db?: Promise<IDBDatabase>
+
+  constructor(private _name = 'musquette') {}
+
+  async put(key: string, value: string) {
+    await this._transaction('readwrite', store => store.put(value, key))
+  }
+
+  async del(key: string) {
+    await this._transaction('readwrite', store => store.delete(key))
+  }
+
+  async entries(prefix: string) {
+    const range = IDBKeyRange.bound(prefix, prefix + '\uffff')
+    return this._transaction('readonly', store => {
+      const entries: [string, string][] = []
+      const cursor = store.openCursor(range)
+      cursor.onsuccess = () => {
+        if (!cursor.result) return
+        entries.push([cursor.result.key as string, cursor.result.value])
+        cursor.result.continue()
+      }
+      return entries
+    })
+  }
+
+  async close() {
+    if (this._db) {
+      const db = await this._db
+      this._db = undefined
+      db.close()
+    }
+  }
+
+  private _open() {
+    if (!this._db) {
+      const req = indexedDB.open(this._name, 1)
+      req.onupgradeneeded = () => req.result.createObjectStore(ENTRIES)
+      this._db = request(req)
+    }
+    return this._db
+  }
+
+  /** Runs the operation in a transaction and resolves once it completes */
+  private async _transaction<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => R
+  ): Promise<R> {
+    const db = await this._open()
+    return new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(ENTRIES, mode)
+      const result = operation(transaction.objectStore(ENTRIES))
+      transaction.oncomplete = () => resolve(result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+}
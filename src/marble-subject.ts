@@ -0,0 +1,143 @@
+import { EventEmitter } from 'events'
+import { Observable, Subject } from 'rxjs'
+import { filter, map } from 'rxjs/operators'
+import { TestScheduler } from 'rxjs/testing'
+import { MqttClient as MQTTClient, ISubscriptionMap } from 'mqtt'
+import mqttWildcard from './mqtt-wildcard'
+import { MQTTSubject, MQTTSubjectConfig, MQTTPayload } from './musquette'
+
+export interface MarbleSubjectConfig<T> extends Partial<MQTTSubjectConfig<T>> {
+  /**
+   * When the connection is established (`c`) and lost (`d`), e.g. `--c--d-c`.
+   * Connected from the start by default.
+   */
+  connection?: string
+}
+
+interface Published {
+  topic: string
+  payload: Buffer
+}
+
+/**
+ * Stands in for the mqtt library: delivers messages to its subscriptions and
+ * acknowledges publishes synchronously, so everything happens on the frames
+ * of the scheduler.
+ */
+class MarbleClient extends EventEmitter {
+  disconnecting = false
+  readonly published$ = new Subject<Published>()
+  private _filters = new Set<string>()
+
+  constructor(public connected: boolean) {
+    super()
+  }
+
+  subscribe(
+    subscriptions: ISubscriptionMap,
+    options: object,
+    callback: (error: Error | null, granted: Array<{ topic: string; qos: number }>) => void
+  ) {
+    const filters = Object.keys(subscriptions)
+    filters.forEach(topic => this._filters.add(topic))
+    callback(
+      null,
+      filters.map(topic => ({ topic, qos: subscriptions[topic].qos }))
+    )
+    return this
+  }
+
+  unsubscribe(filters: string | string[]) {
+    ;([] as string[]).concat(filters).forEach(topic => this._filters.delete(topic))
+    return this
+  }
+
+  publish(topic: string, payload: Buffer, options: object, callback: (error?: Error) => void) {
+    this.published$.next({ topic, payload })
+    callback()
+    return this
+  }
+
+  reconnect() {
+    return this
+  }
+
+  /** Delivers the message if connected and subscribed to a matching filter */
+  deliver(topic: string, payload: Buffer) {
+    if (!this.connected) return
+    const subscribed = Array.from(this._filters).some(
+      subscription => mqttWildcard(topic, subscription) !== null
+    )
+    if (!subscribed) return
+    const packet = { cmd: 'publish', topic, payload, qos: 0, retain: false, dup: false }
+    this.emit('message', topic, payload, packet)
+  }
+
+  connect() {
+    if (this.connected) return
+    this.connected = true
+    // The broker forgets the subscriptions of a clean session
+    this._filters.clear()
+    this.emit('connect', { cmd: 'connack', returnCode: 0, sessionPresent: false })
+  }
+
+  lose() {
+    if (!this.connected) return
+    this.connected = false
+    this.emit('close')
+    this.emit('offline')
+  }
+}
+
+/**
+ * An MQTTSubject for marble tests with a TestScheduler. Instead of a broker,
+ * inbound messages come from marble diagrams per topic and publishes are
+ * emitted by `published()`, on the frames of the scheduler. Create it inside
+ * `scheduler.run()`.
+ */
+export default class MarbleSubject<T = any> extends MQTTSubject<T> {
+  private _scheduler: TestScheduler
+  private _marbles: MarbleClient
+
+  constructor(
+    scheduler: TestScheduler,
+    { connection, ...config }: MarbleSubjectConfig<MQTTPayload<T>> = {}
+  ) {
+    const client = new MarbleClient(connection === undefined)
+    super({ url: '', ...config, client: (client as unknown) as MQTTClient })
+    this._scheduler = scheduler
+    this._marbles = client
+
+    if (connection !== undefined) {
+      scheduler
+        .createHotObservable(connection)
+        .subscribe(event => (event === 'c' ? client.connect() : client.lose()))
+    }
+  }
+
+  /**
+   * Receives the values of the marbles as messages on the topic, serialized
+   * with the codec of the topic. Buffers are sent as they are. Like a broker,
+   * messages are only delivered while connected and subscribed.
+   */
+  inbound(topic: string, marbles: string, values?: { [marble: string]: any }) {
+    const { serializer } = this._codecFor(topic)
+    this._scheduler
+      .createHotObservable(marbles, values)
+      .subscribe(value =>
+        this._marbles.deliver(topic, Buffer.isBuffer(value) ? value : serializer(value))
+      )
+  }
+
+  /**
+   * Emits the payloads published on topics matching the filter, deserialized
+   * with the codec of their topic, when they are handed to the connection.
+   * Messages published while disconnected are emitted once connected.
+   */
+  published(topicFilter = '#'): Observable<any> {
+    return this._marbles.published$.pipe(
+      filter(({ topic }) => mqttWildcard(topic, topicFilter) !== null),
+      map(({ topic, payload }) => this._codecFor(topic).deserializer(payload))
+    )
+  }
+}
@@ -0,0 +1,622 @@
+import { Duplex } from 'stream'
+import { Observable, Subject, defer, throwError } from 'rxjs'
+import { first, timeoutWith } from 'rxjs/operators'
+import {
+  parser as packetParser,
+  generate,
+  Packet,
+  IConnectPacket,
+  IPublishPacket,
+  ISubscribePacket,
+  IUnsubscribePacket,
+  ISubscription,
+  QoS
+} from 'mqtt-packet'
+import { MqttClient as MQTTClient, IClientOptions as MQTTClientOptions } from 'mqtt'
+import mqttWildcard, { parseSharedFilter } from './mqtt-wildcard'
+import { MQTTSubject, MQTTSubjectConfig, MQTTTransport, MQTTPayload, jsonCodec } from './musquette'
+
+/** A message as it was published to the broker */
+export interface MemoryBrokerMessage {
+  topic: string
+  payload: Buffer
+  qos: QoS
+  retain: boolean
+  properties?: IPublishPacket['properties']
+  /** The client that published the message or whose will it is, none for `publish()` */
+  clientId?: string
+}
+
+export interface MemoryBrokerSubscription {
+  clientId: string
+  /** The filter as subscribed, including a `$share/{group}/` prefix */
+  filter: string
+  qos: QoS
+}
+
+export interface MemoryBrokerOptions {
+  /** Accepts or refuses the credentials of connecting clients, all are accepted by default */
+  authenticate?: (clientId: string, username?: string, password?: Buffer) => boolean
+  /** Grants or rejects subscriptions, all are granted by default */
+  authorizeSubscribe?: (clientId: string, filter: string) => boolean
+}
+
+export interface MemoryBrokerPublishOptions {
+  qos?: QoS
+  retain?: boolean
+  properties?: IPublishPacket['properties']
+}
+
+export interface MemoryBrokerExpectOptions {
+  /** Milliseconds after which the returned Promise rejects, 2000 by default */
+  timeout?: number
+}
+
+interface Subscription extends ISubscription {
+  /** Subscription identifier the SUBSCRIBE set (MQTT 5) */
+  identifier?: number
+}
+
+interface Session {
+  clientId: string
+  clean: boolean
+  subscriptions: Map<string, Subscription>
+  /** QoS 1 and 2 messages that arrived while a persistent session was offline */
+  pending: Array<[MemoryBrokerMessage, Subscription]>
+  connection?: Connection
+}
+
+interface Connection {
+  stream: Duplex
+  protocolVersion: number
+  session?: Session
+  will?: IConnectPacket['will']
+  lastMessageId: number
+  /** Ids of QoS 2 messages that were received but not yet released */
+  received: Set<number>
+  closed: boolean
+}
+
+const DEFAULT_TIMEOUT = 2000
+
+const deepEqual = (a: any, b: any): boolean => {
+  if (a === b) return true
+  if (!(a instanceof Object) || !(b instanceof Object)) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const keys = Object.keys(a)
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+  )
+}
+
+/**
+ * Whether the payload of the message matches the expected one: Buffers are
+ * compared byte by byte, predicates are called with the message and any
+ * other value is compared with the JSON decoded payload.
+ */
+const payloadMatches = (expected: any, message: MemoryBrokerMessage) => {
+  if (Buffer.isBuffer(expected)) return expected.equals(message.payload)
+  if (typeof expected === 'function') return !!expected(message)
+  try {
+    return deepEqual(jsonCodec.deserializer!(message.payload), expected)
+  } catch (e) {
+    return false
+  }
+}
+
+const summary = (message: MemoryBrokerMessage) =>
+  `${message.topic} ${JSON.stringify(message.payload.toString())}`
+
+/**
+ * An MQTT broker that runs in memory, for tests without a real broker. It
+ * speaks MQTT 3.1.1 and 5 over the streams of its `transport()`, keeps
+ * retained messages and persistent sessions, delivers with QoS 0, 1 and 2,
+ * supports wildcards and shared subscriptions and publishes will messages
+ * when clients are disconnected with `disconnect()`.
+ */
+export default class MemoryBroker {
+  /** Every message published to the broker, in order */
+  readonly published: MemoryBrokerMessage[] = []
+
+  private _published = new Subject<MemoryBrokerMessage>()
+  private _subscribed = new Subject<MemoryBrokerSubscription>()
+  private _unsubscribed = new Subject<MemoryBrokerSubscription>()
+  private _connected = new Subject<string>()
+  private _disconnected = new Subject<string>()
+  private _sessions = new Map<string, Session>()
+  private _connections = new Set<Connection>()
+  private _retained = new Map<string, MemoryBrokerMessage>()
+  private _shareCursors = new Map<string, number>()
+  private _clientIds = 0
+  private _closed = false
+  private _held?: Array<() => void>
+
+  constructor(private _options: MemoryBrokerOptions = {}) {}
+
+  /** Emits every message published to the broker */
+  get published$(): Observable<MemoryBrokerMessage> {
+    return this._published.asObservable()
+  }
+
+  /** Emits every granted subscription */
+  get subscribed$(): Observable<MemoryBrokerSubscription> {
+    return this._subscribed.asObservable()
+  }
+
+  get unsubscribed$(): Observable<MemoryBrokerSubscription> {
+    return this._unsubscribed.asObservable()
+  }
+
+  /** Emits the id of every client that connected */
+  get connected$(): Observable<string> {
+    return this._connected.asObservable()
+  }
+
+  /** Emits the id of every client that disconnected or was disconnected */
+  get disconnected$(): Observable<string> {
+    return this._disconnected.asObservable()
+  }
+
+  /** The subscriptions of all sessions, including offline persistent ones */
+  get subscriptions(): MemoryBrokerSubscription[] {
+    const subscriptions: MemoryBrokerSubscription[] = []
+    this._sessions.forEach(({ clientId, subscriptions: filters }) =>
+      filters.forEach(({ topic, qos }) => subscriptions.push({ clientId, filter: topic, qos }))
+    )
+    return subscriptions
+  }
+
+  /** Connects clients to this broker, pass it as `transport` of a subject */
+  transport(): MQTTTransport {
+    return () => this._accept()
+  }
+
+  /** Creates a subject connected to this broker */
+  subject<T = any>(config: Partial<MQTTSubjectConfig<MQTTPayload<T>>> = {}): MQTTSubject<T> {
+    return new MQTTSubject<T>({ url: 'mqtt://memory', ...config, transport: this.transport() })
+  }
+
+  /** Creates an mqtt.js client connected to this broker */
+  client(options: MQTTClientOptions = {}): MQTTClient {
+    return new MQTTClient(this.transport(), options)
+  }
+
+  /**
+   * Publishes a message as the broker. Buffers are sent as they are, other
+   * payloads as JSON and `undefined` as the empty payload that clears a
+   * retained message.
+   */
+  publish(
+    topic: string,
+    payload?: any,
+    { qos = 0, retain = false, properties }: MemoryBrokerPublishOptions = {}
+  ) {
+    this._route({
+      topic,
+      payload: Buffer.isBuffer(payload) ? payload : jsonCodec.serializer!(payload),
+      qos,
+      retain,
+      properties
+    })
+  }
+
+  /** The retained message of a topic */
+  retained(topic: string): MemoryBrokerMessage | undefined {
+    return this._retained.get(topic)
+  }
+
+  /**
+   * Closes the connections of a client, or of all clients, without a
+   * DISCONNECT as if the network failed. Will messages are published.
+   */
+  disconnect(clientId?: string) {
+    Array.from(this._connections)
+      .filter(({ session }) => clientId === undefined || (session && session.clientId === clientId))
+      .forEach(connection => this._close(connection))
+  }
+
+  /**
+   * Holds back every packet the broker sends, e.g. acknowledgements and
+   * deliveries, until `resume()`, like a broker that stopped responding
+   */
+  pause() {
+    this._held = this._held || []
+  }
+
+  /** Sends the packets held back since `pause()` */
+  resume() {
+    const held = this._held || []
+    this._held = undefined
+    held.forEach(push => push())
+  }
+
+  /** Disconnects all clients and refuses new connections */
+  close() {
+    this._closed = true
+    this.disconnect()
+    this._sessions.clear()
+    this._retained.clear()
+    this._published.complete()
+    this._subscribed.complete()
+    this._unsubscribed.complete()
+    this._connected.complete()
+    this._disconnected.complete()
+  }
+
+  /**
+   * Resolves with the first message that has been or is published on the
+   * topic, or on a topic matched by the filter, and whose payload matches:
+   * a Buffer byte by byte, a predicate of the message or any other value the
+   * JSON decoded payload. Any payload matches if none is given. Rejects if no
+   * such message is published within the timeout.
+   */
+  expectPublished(
+    topic: string,
+    payload?: any,
+    { timeout = DEFAULT_TIMEOUT }: MemoryBrokerExpectOptions = {}
+  ): Promise<MemoryBrokerMessage> {
+    const matches = (message: MemoryBrokerMessage) =>
+      mqttWildcard(message.topic, topic) !== null &&
+      (payload === undefined || payloadMatches(payload, message))
+    const expected = payload === undefined ? '' : ` with ${JSON.stringify(payload)}`
+    return this._expect(
+      this.published.filter(matches)[0],
+      this._published,
+      matches,
+      timeout,
+      () => {
+        const published = this.published.map(summary).join(', ') || 'none'
+        return `Expected a message on ${topic}${expected} within ${timeout}ms, published: ${published}`
+      }
+    )
+  }
+
+  /** Resolves once a client has subscribed to the filter */
+  expectSubscribed(
+    filter: string,
+    { timeout = DEFAULT_TIMEOUT }: MemoryBrokerExpectOptions = {}
+  ): Promise<MemoryBrokerSubscription> {
+    const matches = (subscription: MemoryBrokerSubscription) => subscription.filter === filter
+    return this._expect(
+      this.subscriptions.filter(matches)[0],
+      this._subscribed,
+      matches,
+      timeout,
+      () => {
+        const subscribed = this.subscriptions.map(({ filter }) => filter).join(', ') || 'none'
+        return `Expected a subscription to ${filter} within ${timeout}ms, subscribed: ${subscribed}`
+      }
+    )
+  }
+
+  private _expect<E>(
+    current: E | undefined,
+    events: Observable<E>,
+    matches: (event: E) => boolean,
+    timeout: number,
+    message: () => string
+  ): Promise<E> {
+    if (current) return Promise.resolve(current)
+    return events
+      .pipe(
+        first(matches),
+        timeoutWith(
+          timeout,
+          defer(() => throwError(new Error(message())))
+        )
+      )
+      .toPromise()
+  }
+
+  private _accept(): Duplex {
+    const parser = packetParser()
+    const connection: Connection = {
+      stream: new Duplex({
+        read: () => undefined,
+        write: (chunk, encoding, callback) => {
+          parser.parse(chunk)
+          callback()
+        },
+        final: callback => {
+          this._drop(connection)
+          connection.stream.push(null)
+          callback()
+        },
+        destroy: (error, callback) => {
+          this._drop(connection)
+          callback(error)
+        }
+      }),
+      protocolVersion: 4,
+      lastMessageId: 0,
+      received: new Set(),
+      closed: false
+    }
+    parser.on('packet', (packet: Packet) => this._handle(connection, packet))
+    parser.on('error', () => this._close(connection))
+
+    if (this._closed) {
+      this._close(connection)
+    } else {
+      this._connections.add(connection)
+    }
+    return connection.stream
+  }
+
+  private _handle(connection: Connection, packet: Packet) {
+    if (connection.closed) return
+    if (!connection.session && packet.cmd !== 'connect') {
+      return this._close(connection)
+    }
+    switch (packet.cmd) {
+      case 'connect':
+        return this._connect(connection, packet)
+      case 'publish':
+        return this._receive(connection, packet)
+      case 'pubrel':
+        connection.received.delete(packet.messageId!)
+        return this._send(connection, { cmd: 'pubcomp', messageId: packet.messageId })
+      case 'pubrec':
+        return this._send(connection, { cmd: 'pubrel', messageId: packet.messageId })
+      case 'subscribe':
+        return this._subscribe(connection, packet)
+      case 'unsubscribe':
+        return this._unsubscribe(connection, packet)
+      case 'pingreq':
+        return this._send(connection, { cmd: 'pingresp' })
+      case 'disconnect':
+        connection.will = undefined
+        return this._drop(connection)
+    }
+  }
+
+  private _send(connection: Connection, packet: object) {
+    const buffer = generate(packet as Packet, { protocolVersion: connection.protocolVersion })
+    const push = () => {
+      if (!connection.stream.destroyed) connection.stream.push(buffer)
+    }
+    if (this._held) {
+      this._held.push(push)
+    } else {
+      // Deliver asynchronously like a network would, in order
+      process.nextTick(push)
+    }
+  }
+
+  private _connect(connection: Connection, packet: IConnectPacket) {
+    const { username, password, will, clean = true, protocolVersion = 4 } = packet
+    const { authenticate } = this._options
+    const v5 = protocolVersion === 5
+    connection.protocolVersion = protocolVersion
+    const clientId = packet.clientId || `memory-broker-${++this._clientIds}`
+
+    if (authenticate && !authenticate(clientId, username, password)) {
+      this._send(connection, {
+        cmd: 'connack',
+        sessionPresent: false,
+        ...(v5 ? { reasonCode: 0x87 } : { returnCode: 5 })
+      })
+      return this._close(connection)
+    }
+
+    // A client that connects again takes over the session
+    const previous = this._sessions.get(clientId)
+    if (previous && previous.connection) this._close(previous.connection)
+    const existing = this._sessions.get(clientId)
+    const sessionPresent = !clean && !!existing
+    const session: Session =
+      sessionPresent && existing
+        ? existing
+        : { clientId, clean, subscriptions: new Map(), pending: [] }
+    session.clean = clean
+    session.connection = connection
+    this._sessions.set(clientId, session)
+    connection.session = session
+    connection.will = will
+
+    this._send(connection, {
+      cmd: 'connack',
+      sessionPresent,
+      ...(v5
+        ? {
+            reasonCode: 0,
+            properties: packet.clientId ? {} : { assignedClientIdentifier: clientId }
+          }
+        : { returnCode: 0 })
+    })
+    this._connected.next(clientId)
+    session.pending
+      .splice(0)
+      .forEach(([message, subscription]) => this._deliver(session, message, subscription))
+  }
+
+  private _receive(connection: Connection, packet: IPublishPacket) {
+    const { topic, payload, qos, retain, messageId } = packet
+    if (qos === 2) {
+      const duplicate = connection.received.has(messageId!)
+      connection.received.add(messageId!)
+      this._send(connection, { cmd: 'pubrec', messageId })
+      if (duplicate) return
+    }
+
+    // Aliases and subscription identifiers only apply to a single connection
+    const { topicAlias, subscriptionIdentifier, ...properties } = packet.properties || ({} as any)
+    this._route({
+      topic,
+      payload: Buffer.from(payload as any),
+      qos,
+      retain,
+      properties: Object.keys(properties).length ? properties : undefined,
+      clientId: connection.session!.clientId
+    })
+
+    if (qos === 1) this._send(connection, { cmd: 'puback', messageId })
+  }
+
+  private _route(message: MemoryBrokerMessage) {
+    const { topic, payload, retain, clientId } = message
+    this.published.push(message)
+    if (retain) {
+      if (payload.length) {
+        this._retained.set(topic, message)
+      } else {
+        this._retained.delete(topic)
+      }
+    }
+    this._published.next(message)
+
+    const groups = new Map<string, Array<[Session, Subscription]>>()
+    this._sessions.forEach(session => {
+      let granted: Subscription | undefined
+      const identifiers: number[] = []
+      session.subscriptions.forEach(subscription => {
+        const { shareGroup, filter } = parseSharedFilter(subscription.topic)
+        if (mqttWildcard(topic, filter) === null) return
+        if (shareGroup !== undefined) {
+          const members = groups.get(subscription.topic) || []
+          groups.set(subscription.topic, members.concat([[session, subscription]]))
+        } else if (!(subscription.nl && session.clientId === clientId)) {
+          // Overlapping subscriptions receive the message once, with the highest QoS
+          if (!granted || subscription.qos > granted.qos) granted = subscription
+          if (subscription.identifier !== undefined) identifiers.push(subscription.identifier)
+        }
+      })
+      if (granted) this._deliver(session, message, granted, false, identifiers)
+    })
+
+    // Each group receives the message once, its members take turns
+    groups.forEach((members, group) => {
+      const cursor = this._shareCursors.get(group) || 0
+      this._shareCursors.set(group, cursor + 1)
+      const [session, subscription] = members[cursor % members.length]
+      this._deliver(session, message, subscription)
+    })
+  }
+
+  private _deliver(
+    session: Session,
+    message: MemoryBrokerMessage,
+    subscription: Subscription,
+    retained = false,
+    identifiers = subscription.identifier === undefined ? [] : [subscription.identifier]
+  ) {
+    const { connection } = session
+    const qos = Math.min(message.qos, subscription.qos) as QoS
+    if (!connection) {
+      if (qos > 0) session.pending.push([message, subscription])
+      return
+    }
+    const { topic, payload } = message
+    // The identifiers of all subscriptions that matched, in place of the publisher's
+    const properties = identifiers.length
+      ? { ...message.properties, subscriptionIdentifier: identifiers as any }
+      : message.properties
+    this._send(connection, {
+      cmd: 'publish',
+      topic,
+      payload,
+      qos,
+      retain: retained || (!!subscription.rap && message.retain),
+      dup: false,
+      ...(qos > 0 ? { messageId: this._messageId(connection) } : {}),
+      ...(connection.protocolVersion === 5 && properties ? { properties } : {})
+    })
+  }
+
+  private _messageId(connection: Connection) {
+    connection.lastMessageId = (connection.lastMessageId % 65535) + 1
+    return connection.lastMessageId
+  }
+
+  private _subscribe(
+    connection: Connection,
+    { messageId, subscriptions, properties }: ISubscribePacket
+  ) {
+    const session = connection.session!
+    const { authorizeSubscribe } = this._options
+    // Typings of the packet lack the property
+    const { subscriptionIdentifier: identifier } = (properties || {}) as {
+      subscriptionIdentifier?: number
+    }
+    const accepted: Array<[Subscription, boolean]> = []
+    const granted = subscriptions.map(subscription => {
+      const { topic } = subscription
+      if (authorizeSubscribe && !authorizeSubscribe(session.clientId, topic)) {
+        return connection.protocolVersion === 5 ? 0x87 : 0x80
+      }
+      const qos = Math.min(subscription.qos, 2) as QoS
+      accepted.push([{ ...subscription, qos, identifier }, session.subscriptions.has(topic)])
+      session.subscriptions.set(topic, { ...subscription, qos, identifier })
+      return qos
+    })
+    this._send(connection, { cmd: 'suback', messageId, granted })
+
+    accepted.forEach(([subscription, existed]) => {
+      const { shareGroup, filter } = parseSharedFilter(subscription.topic)
+      const { rh = 0 } = subscription
+      // Retain handling 1 sends retained messages for new subscriptions only, 2 never
+      if (shareGroup !== undefined || rh === 2 || (rh === 1 && existed)) return
+      this._retained.forEach(message => {
+        if (mqttWildcard(message.topic, filter) !== null) {
+          this._deliver(session, message, subscription, true)
+        }
+      })
+    })
+    accepted.forEach(([{ topic, qos }]) =>
+      this._subscribed.next({ clientId: session.clientId, filter: topic, qos })
+    )
+  }
+
+  private _unsubscribe(connection: Connection, { messageId, unsubscriptions }: IUnsubscribePacket) {
+    const session = connection.session!
+    const removed = unsubscriptions.map(filter => session.subscriptions.get(filter))
+    unsubscriptions.forEach(filter => session.subscriptions.delete(filter))
+    this._send(connection, {
+      cmd: 'unsuback',
+      messageId,
+      // No subscription existed for filters without a subscription
+      granted: removed.map(subscription => (subscription ? 0 : 0x11))
+    })
+    removed.forEach(
+      subscription =>
+        subscription &&
+        this._unsubscribed.next({
+          clientId: session.clientId,
+          filter: subscription.topic,
+          qos: subscription.qos
+        })
+    )
+  }
+
+  /** Ends the connection from the broker's side */
+  private _close(connection: Connection) {
+    this._drop(connection)
+    // After the packets that are still being sent
+    process.nextTick(() => connection.stream.destroy())
+  }
+
+  private _drop(connection: Connection) {
+    if (connection.closed) return
+    connection.closed = true
+    this._connections.delete(connection)
+    const { session, will } = connection
+    if (!session || session.connection !== connection) return
+
+    session.connection = undefined
+    if (session.clean) this._sessions.delete(session.clientId)
+    if (will) {
+      const { topic, payload, qos = 0, retain = false } = will
+      const { willDelayInterval, ...properties } = will.properties || ({} as any)
+      this._route({
+        topic,
+        payload: Buffer.from(payload),
+        qos,
+        retain,
+        properties: Object.keys(properties).length ? properties : undefined,
+        clientId: session.clientId
+      })
+    }
+    this._disconnected.next(session.clientId)
+  }
+}
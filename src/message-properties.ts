@@ -0,0 +1,60 @@
+import { IPublishPacket } from 'mqtt'
+
+/** User properties by name, names that occur more than once have an array of values */
+export interface MQTTUserProperties {
+  [name: string]: string | string[]
+}
+
+/** MQTT 5 properties of a published message */
+export interface MQTTMessageProperties {
+  userProperties?: MQTTUserProperties
+  /** MIME type of the payload, e.g. `application/json` */
+  contentType?: string
+  /** Whether the payload is UTF-8 encoded character data */
+  payloadFormatIndicator?: boolean
+  /** Seconds after which the broker discards the message if it is not delivered */
+  messageExpiryInterval?: number
+  /** The topic a response to a request is expected on */
+  responseTopic?: string
+  /** Correlates a response with its request */
+  correlationData?: Buffer
+  /**
+   * The identifiers of the subscriptions a received message matched, see the
+   * `subscriptionIdentifier` option of topics. Only set by the broker, ignored
+   * when publishing.
+   */
+  subscriptionIdentifiers?: number[]
+}
+
+type PacketProperties = NonNullable<IPublishPacket['properties']>
+
+const isEmpty = (object: object) => !Object.keys(object).length
+
+/** The properties of an outgoing PUBLISH packet, undefined if there are none */
+export function toPacketProperties(
+  properties?: MQTTMessageProperties
+): PacketProperties | undefined {
+  if (!properties) return
+  const { subscriptionIdentifiers, ...publishable } = properties
+  const packet: PacketProperties = {}
+  Object.keys(publishable).forEach(name => {
+    const value = (publishable as any)[name]
+    if (value !== undefined) (packet as any)[name] = value
+  })
+  return isEmpty(packet) ? undefined : packet
+}
+
+/** The properties of a received PUBLISH packet, undefined if there are none */
+export function fromPacketProperties(packet?: PacketProperties): MQTTMessageProperties | undefined {
+  if (!packet) return
+  const { subscriptionIdentifier, topicAlias, userProperties, ...rest } = packet
+  const properties: MQTTMessageProperties = rest
+  if (userProperties) {
+    properties.userProperties = userProperties as MQTTUserProperties
+  }
+  if (subscriptionIdentifier !== undefined) {
+    // Messages matching several subscriptions carry an array of identifiers
+    properties.subscriptionIdentifiers = ([] as number[]).concat(subscriptionIdentifier)
+  }
+  return isEmpty(properties) ? undefined : properties
+}
@@ -1,7 +1,12 @@
+/** Wildcards at the first level do not match topics starting with `$`, e.g. `$SYS/...` */
+const isWildcardLevel = (level: string) => level === '#' || level === '+'
+
 // adapted from https://github.com/hobbyquaker/mqtt-wildcard
 export default function mqttWildcard(topic: string, wildcard: string) {
   if (topic === wildcard) {
     return []
+  } else if (topic[0] === '$' && isWildcardLevel(wildcard.split('/')[0])) {
+    return null
   } else if (wildcard === '#') {
     return [topic]
   }
@@ -29,3 +34,79 @@ export default function mqttWildcard(topic: string, wildcard: string) {
 
   return i === w.length ? res : null
 }
+
+/**
+ * Checks whether every topic matched by the `narrow` filter is also matched
+ * by the `wide` filter.
+ */
+export function filterCovers(wide: string, narrow: string) {
+  if (wide === narrow) {
+    return true
+  }
+
+  let w = wide.split('/')
+  let n = narrow.split('/')
+
+  if (narrow[0] === '$' && isWildcardLevel(w[0])) {
+    return false
+  }
+
+  for (let i = 0; i < w.length; i++) {
+    if (w[i] === '#') {
+      return true
+    } else if (i >= n.length || n[i] === '#') {
+      return false
+    } else if (w[i] !== '+' && w[i] !== n[i]) {
+      return false
+    }
+  }
+
+  return w.length === n.length
+}
+
+/** Checks whether a topic exists that both filters match */
+export function filtersOverlap(a: string, b: string) {
+  let x = a.split('/')
+  let y = b.split('/')
+
+  if ((a[0] === '$' && isWildcardLevel(y[0])) || (b[0] === '$' && isWildcardLevel(x[0]))) {
+    return false
+  }
+
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    if (x[i] === '#' || y[i] === '#') {
+      return true
+    } else if (i >= x.length || i >= y.length) {
+      return false
+    } else if (x[i] !== '+' && y[i] !== '+' && x[i] !== y[i]) {
+      return false
+    }
+  }
+
+  return true
+}
+
+const SHARE_PREFIX = '$share/'
+
+export const isSharedFilter = (filter: string) => filter.indexOf(SHARE_PREFIX) === 0
+
+/**
+ * Splits a shared subscription filter `$share/{group}/{filter}` into the
+ * share group and the filter topics are matched against.
+ */
+export function parseSharedFilter(filter: string): { shareGroup?: string; filter: string } {
+  if (!isSharedFilter(filter)) {
+    return { filter }
+  }
+  const separator = filter.indexOf('/', SHARE_PREFIX.length)
+  if (separator === -1) {
+    return { filter }
+  }
+  return {
+    shareGroup: filter.slice(SHARE_PREFIX.length, separator),
+    filter: filter.slice(separator + 1)
+  }
+}
+
+export const sharedFilter = (shareGroup: string, filter: string) =>
+  `${SHARE_PREFIX}${shareGroup}/${filter}`
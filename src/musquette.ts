@@ -5,46 +5,284 @@ import {
   Subscription,
   Operator,
   ReplaySubject,
+  AsyncSubject,
   Observer,
-  NextObserver
+  NextObserver,
+  EMPTY,
+  NEVER,
+  concat,
+  defer,
+  from,
+  merge,
+  of,
+  throwError,
+  timer
 } from 'rxjs'
-import { filter } from 'rxjs/operators'
+import {
+  filter,
+  map,
+  mergeMap,
+  take,
+  catchError,
+  tap,
+  finalize,
+  share
+} from 'rxjs/operators'
 
+import { EventEmitter } from 'events'
 import {
   MqttClient as MQTTClient,
   IClientOptions as MQTTClientOptions,
+  ClientSubscribeCallback,
+  IStream,
+  IClientPublishOptions,
+  IClientSubscribeOptions,
+  IConnackPacket,
+  IPublishPacket,
+  ISubscriptionGrant,
+  ISubscriptionMap,
   connect as connectBroker
 } from 'mqtt'
-import mqttWildcard from './mqtt-wildcard'
+import mqttWildcard, { parseSharedFilter, sharedFilter } from './mqtt-wildcard'
+import TopicRouter from './topic-router'
+import { IsTopicMap, MQTTPayload, MQTTTopicPayload, TopicName, TopicParams } from './topic-map'
+import {
+  MQTTTopicParams,
+  TopicPattern,
+  parseTopicPattern,
+  hasParams,
+  topicParams
+} from './topic-params'
+import {
+  MQTTCodec,
+  MQTTCodecRules,
+  Serializer,
+  Deserializer,
+  jsonCodec,
+  rawCodec,
+  resolveCodec
+} from './codec'
+import TopicSubscriptions, { MQTTQoS, MQTTSubscribeOptions } from './topic-subscriptions'
+import {
+  MQTTError,
+  AuthenticationError,
+  ConnectionError,
+  ConnectionRefusedError,
+  DeserializationError,
+  InvalidArgumentError,
+  InvalidTopicError,
+  PublishError,
+  SerializationError,
+  StoreError,
+  SubscriptionConflictError,
+  SubscriptionFailedError,
+  SubscriptionRejectedError,
+  ValidationError
+} from './errors'
+import {
+  MQTTValidator,
+  MQTTValidatorRules,
+  resolveValidator,
+  validatePayload
+} from './payload-validation'
+import { validateTopic, validateFilter } from './topic-validation'
+import { MQTTReconnectOptions, MQTTReconnectStrategy, reconnectStrategy } from './reconnect'
+import { MQTTConnectionState } from './connection-state'
+import OutboundQueue, { MQTTQueueOptions, QueueDrop } from './outbound-queue'
+import { MQTTStore, PacketStore, QueueStore } from './session-store'
+import ConnectionPool, { poolable } from './connection-pool'
+import {
+  MQTTMessageProperties,
+  toPacketProperties,
+  fromPacketProperties
+} from './message-properties'
+import { MQTTSnapshot, MQTTSnapshotOptions, snapshot } from './snapshot'
+import {
+  MQTTRequestOptions,
+  MQTTRespondOptions,
+  MQTTResponder,
+  MQTTRequestEnvelope,
+  MQTTReplyEnvelope,
+  REPLY_ERROR_PROPERTY,
+  randomId,
+  isEnvelope,
+  fromResult,
+  requestError,
+  requestTimeout
+} from './request-response'
+
+export * from './codec'
+export * from './errors'
+export { validateTopic, validateFilter } from './topic-validation'
+export { MQTTTopicParams } from './topic-params'
+export {
+  MQTTTopicMap,
+  MQTTPayload,
+  MQTTTopicPayload,
+  IsTopicMap,
+  TopicName,
+  TopicMatches,
+  TopicParams
+} from './topic-map'
+export * from './reconnect'
+export * from './connection-state'
+export { MQTTQoS, MQTTSubscribeOptions }
+export { MQTTQueueOptions, MQTTOverflowPolicy } from './outbound-queue'
+export { MQTTStore, MemoryStore } from './session-store'
+export { default as FileStore } from './file-store'
+export { default as IndexedDBStore } from './indexeddb-store'
+export { MQTTMessageProperties, MQTTUserProperties } from './message-properties'
+export { MQTTSnapshot, MQTTSnapshotEntry, MQTTSnapshotOptions } from './snapshot'
+export {
+  MQTTValidator,
+  MQTTValidatorRules,
+  MQTTTypeGuard,
+  MQTTJSONSchema,
+  MQTTJSONSchemaType
+} from './payload-validation'
+export {
+  MQTTRequestOptions,
+  MQTTRespondOptions,
+  MQTTResponder,
+  MQTTRequestEnvelope,
+  MQTTReplyEnvelope
+} from './request-response'
 
-interface MQTTMessage<T> {
+export interface MQTTMessage<T, P extends MQTTTopicParams = MQTTTopicParams> {
   topic: string
   message: T
-  qos?: 0 | 1 | 2
+  qos?: MQTTQoS
+  /**
+   * Whether the message is retained. Inbound, set on retained messages sent
+   * by the broker on subscribe, and on live messages only with
+   * `retainAsPublished`.
+   */
   retain?: boolean
+  /** Whether an inbound message is a redelivery of an unacknowledged message */
+  dup?: boolean
+  /** The PUBLISH packet an inbound message was received with */
+  packet?: IPublishPacket
+  /** MQTT 5 properties, sent along with the message if the protocol version is 5 */
+  properties?: MQTTMessageProperties
+  /**
+   * The levels of the topic captured by the named wildcards of the topic
+   * subject the message was received through, e.g. `+deviceId`
+   */
+  params?: P
 }
 
+/**
+ * The messages of a topic subject, which always carry `params` if its filter
+ * has named wildcards
+ */
+export type MQTTTopicSubjectMessage<T, P extends MQTTTopicParams = MQTTTopicParams> = {} extends P
+  ? MQTTMessage<T, P>
+  : MQTTMessage<T, P> & { params: P }
+
+/**
+ * The messages of a subject: with a topic map, messages whose topic matches
+ * one of the filters of the map and the payload type of that filter.
+ */
+export type MQTTTopicMessage<T> = IsTopicMap<T> extends true
+  ? { [F in keyof T & string]: MQTTMessage<T[F]> & { topic: TopicName<F> } }[keyof T & string]
+  : MQTTMessage<T>
+
+/** `subscribe()` of the client with the properties of the SUBSCRIBE, which its typings lack */
+type ClientSubscribe = (
+  subscriptions: string | string[] | ISubscriptionMap,
+  options: Partial<IClientSubscribeOptions> & { properties?: { subscriptionIdentifier: number } },
+  callback: ClientSubscribeCallback
+) => MQTTClient
+
+/** Messages as they are handled internally, with any payload of the subject */
+type Message<T> = MQTTMessage<MQTTPayload<T>>
+
+/**
+ * Opens the stream MQTT packets are sent over, e.g. a WebSocket through a
+ * proxy or a stream to an in-process broker. Called again on every reconnect.
+ */
+export type MQTTTransport = (client: MQTTClient) => IStream
+
 export interface MQTTSubjectConfig<T> {
   /** The url of the MQTT server to connect to */
   url: string
   /** Options to be sent to the mqtt library */
   options?: MQTTClientOptions
+  /**
+   * An existing client to use instead of connecting to `url`, e.g. one
+   * shared with other code. The subject unsubscribes its topics and detaches
+   * from the client when it closes, but does not end it. With `reconnect`
+   * the client must be created with `reconnectPeriod: 0` and
+   * `resubscribe: false`.
+   */
+  client?: MQTTClient
+  /**
+   * Connects over the streams of the transport instead of the protocol of
+   * `url`. Errors of the streams are emitted as errors of the client.
+   */
+  transport?: MQTTTransport
   /**
    * A serializer used to create messages from passed values before the
    * messages are sent to the server. Defaults to JSON.stringify.
    */
-  serializer?: (value: T) => Buffer
+  serializer?: Serializer<T>
   /**
    * A deserializer used for messages arriving on the socket from the
    * server. Defaults to JSON.parse.
    */
-  deserializer?: (message: Buffer) => T
+  deserializer?: Deserializer<T>
+  /**
+   * Codecs keyed by topic filter that take precedence over `serializer` and
+   * `deserializer` for matching topics. The first matching filter wins.
+   */
+  codecs?: MQTTCodecRules
+  /**
+   * Validators keyed by topic filter that check inbound messages after they
+   * are deserialized and outbound messages before they are serialized. The
+   * first matching filter wins. Invalid messages are emitted on `rejections$`.
+   */
+  validators?: MQTTValidatorRules
+  /**
+   * Milliseconds after which an Observable returned by `publish()` errors if
+   * the message has not been acknowledged. Unlimited by default.
+   */
+  publishTimeout?: number
+  /**
+   * Reconnect with exponential backoff when the connection is lost or fails
+   * instead of erroring. Topic subscribers are kept and their subscriptions
+   * restored once reconnected. Disabled by default.
+   */
+  reconnect?: boolean | MQTTReconnectOptions
+  /**
+   * Bounds the queue of messages published while disconnected. The queue is
+   * flushed in order once (re)connected. Unbounded by default.
+   */
+  queue?: MQTTQueueOptions
+  /**
+   * Persists the session so queued messages and QoS 1 and 2 messages that
+   * were not acknowledged are sent when the subject is started again, e.g. a
+   * FileStore in node or an IndexedDBStore in the browser. Use it with
+   * `clean: false` and a fixed `clientId` so the broker keeps the session too.
+   */
+  store?: MQTTStore
+  /**
+   * The topic replies to `request()` are received on. Defaults to a random
+   * topic below `musquette/replies/`.
+   */
+  responseTopic?: string
+  /**
+   * Inbound messages whose payload cannot be deserialized are republished
+   * raw on this topic. With MQTT 5 the original topic and the error are sent
+   * as the user properties `topic` and `error`.
+   */
+  deadLetterTopic?: string
   /**
    * An Observer that watches when open events occur on the underlying connection
    */
   connectObserver?: NextObserver<Event>
   /**
-   * An Observer than watches when close events occur on the underlying connection
+   * An Observer that is notified when the connection ends or is lost, with
+   * the error it was lost with if any
    */
   disconnectObserver?: NextObserver<CloseEvent | Error>
   /**
@@ -55,21 +293,237 @@ export interface MQTTSubjectConfig<T> {
   [key: string]: any
 }
 
+export interface MQTTTopicOptions<T> extends MQTTCodec<T>, MQTTSubscribeOptions {
+  /** Pass payloads through as raw Buffers instead of using a codec */
+  raw?: boolean
+  /**
+   * Checks the payloads of the topic instead of the validators of the config.
+   * A type guard narrows the payload type of the topic subject.
+   */
+  validator?: MQTTValidator<T>
+  /**
+   * Subscribe as a member of the share group, the broker delivers each
+   * message to one member only. Same as `topic('$share/{shareGroup}/{filter}')`.
+   * Subscribers error with a SubscriptionConflictError if another topic of
+   * the connection overlaps the filter, as their messages could not be told
+   * apart.
+   */
+  shareGroup?: string
+}
+
+export interface MQTTPublishOptions {
+  qos?: MQTTQoS
+  retain?: boolean
+  /** Overrides `publishTimeout` of the config */
+  timeout?: number
+  /** Milliseconds the message may be queued while disconnected, overrides `queue.ttl` */
+  ttl?: number
+  /** MQTT 5 properties of the message */
+  properties?: MQTTMessageProperties
+}
+
 const DEFAULT_MQTT_CONFIG: MQTTSubjectConfig<any> = {
   url: '',
-  deserializer: (message: Buffer) => JSON.parse(message.toString()),
-  serializer: (value: any) => Buffer.from(JSON.stringify(value))
+  deserializer: jsonCodec.deserializer,
+  serializer: jsonCodec.serializer
+}
+
+interface Outbound<T> {
+  /** The serializer of the topic the message was sent through */
+  serializer?: Serializer<T>
+  /** The validator of the topic the message was sent through, null to skip validation */
+  validator?: MQTTValidator<T> | null
+  /** The acknowledgement of a message sent through `publish()` */
+  ack?: AsyncSubject<void>
+  ttl?: number
+  /** The key the message is persisted under while queued */
+  key?: string
+}
+
+/** Options of outgoing messages that are not part of the message */
+const outbound = new WeakMap<MQTTMessage<any>, Outbound<any>>()
+
+/** The clients subjects with identical configs connect with */
+const pool = new ConnectionPool()
+
+/** The stream of the current connection of the client, which its typings lack */
+const streamOf = (client: MQTTClient) => ((client as unknown) as { stream: IStream }).stream
+
+/** The subjects listening on each client, which share its subscriptions */
+const attached = new WeakMap<MQTTClient, Set<MQTTSubject<any>>>()
+
+/**
+ * Topic subjects of retained state, which emit empty payloads as `undefined`
+ * without decoding or validating them
+ */
+const clearable = new WeakSet<MQTTTopicSubject<any, any>>()
+
+const queueError = ({ item: { topic }, reason }: QueueDrop<MQTTMessage<any>>) => {
+  switch (reason) {
+    case 'full':
+      return new PublishError(
+        topic,
+        'QUEUEFULL',
+        `Cannot queue message on ${topic}, the publish queue is full`
+      )
+    case 'expired':
+      return new PublishError(topic, 'EXPIRED', `Message on ${topic} expired in the publish queue`)
+    default:
+      return new PublishError(
+        topic,
+        'QUEUEOVERFLOW',
+        `Dropped message on ${topic} from the full publish queue`
+      )
+  }
 }
 
-export class MQTTSubject<T> extends AnonymousSubject<MQTTMessage<T>> {
-  private _config: MQTTSubjectConfig<T> = { ...DEFAULT_MQTT_CONFIG }
+/**
+ * Drops retained messages whose payload a subscriber received last on their
+ * topic if the subject sent them again for a filter it subscribed since, e.g.
+ * when a filter covering the one of the subscriber is added or removed.
+ */
+const withoutRedeliveries = (source: MQTTSubject<any>) => <M extends MQTTMessage<any>>(
+  messages: Observable<M>
+) =>
+  defer(() => {
+    const received = new Map<string, { payload: Buffer; subscribes: number }>()
+    return messages.pipe(
+      filter(({ topic, retain, packet }) => {
+        const previous = received.get(topic)
+        // Only topics with retained messages are kept, live messages update them
+        if (!packet || !(retain || previous)) return true
+        const payload = Buffer.isBuffer(packet.payload)
+          ? packet.payload
+          : Buffer.from(packet.payload)
+        received.set(topic, { payload, subscribes: source._subscribes })
+        return !(
+          retain &&
+          previous &&
+          previous.payload.equals(payload) &&
+          source._resubscribed(topic, previous.subscribes)
+        )
+      })
+    )
+  })
+
+const notConnected = (topic: string) =>
+  new PublishError(topic, 'NOTCONNECTED', `Cannot publish on ${topic} after the connection closed`)
+
+const persisted = (topic: string) =>
+  new PublishError(
+    topic,
+    'PERSISTED',
+    `Message on ${topic} is persisted to be sent by the next session`
+  )
+
+/**
+ * CONNACK reason codes of failed authentication: bad user name or password
+ * and not authorized in MQTT 3.1.1 and 5, and bad authentication method.
+ */
+const AUTH_REASON_CODES = [0x04, 0x05, 0x86, 0x87, 0x8c]
+
+/** Wraps the errors of the mqtt library and the underlying stream */
+const connectionError = (error: Error & { code?: any }): MQTTError => {
+  if (error instanceof MQTTError) return error
+  if (typeof error.code !== 'number') return new ConnectionError(error)
+
+  const reason = error.message.replace(/^Connection refused: /, '')
+  return AUTH_REASON_CODES.indexOf(error.code) === -1
+    ? new ConnectionRefusedError(error.code, reason)
+    : new AuthenticationError(error.code, reason)
+}
+
+export class MQTTSubject<T = any> extends AnonymousSubject<MQTTTopicMessage<T>> {
+  private _config: MQTTSubjectConfig<MQTTPayload<T>> = { ...DEFAULT_MQTT_CONFIG }
 
   /** @deprecated This is an internal implementation detail, do not use. */
-  private _output: Subject<MQTTMessage<T>> = new Subject<MQTTMessage<T>>()
+  private _output = new TopicRouter<MQTTMessage<Buffer>>()
 
   private _connection?: MQTTClient
 
-  constructor(urlOrConfig: string | MQTTSubjectConfig<T>, destination?: Observer<MQTTMessage<T>>) {
+  /** The key of the client in the pool, if the subject shares a pooled client */
+  private _poolKey?: string
+
+  /** The listeners added to the client, removed from a shared client */
+  private _listeners: [string, (...args: any[]) => void][] = []
+
+  private _topics = new TopicSubscriptions()
+
+  /** QoS granted by the broker, or failure reason codes, by subscribed filter */
+  private _granted = new Map<string, number>()
+
+  /**
+   * @deprecated This is an internal implementation detail, do not use.
+   *
+   * The number of SUBSCRIBEs sent, which tells the retained messages sent
+   * for them apart
+   */
+  _subscribes = 0
+
+  /** The SUBSCRIBE each subscribed filter was last sent with, by its number */
+  private _subscribedWith = new Map<string, { at: number; retainAsPublished?: boolean }>()
+
+  /** Observers of SUBACK results by the filter of their topic subject */
+  private _grants = new Map<string, Subject<ISubscriptionGrant>>()
+
+  private _reconnectAttempts = 0
+
+  private _reconnectTimer?: any
+
+  /** The error the connection or the last connection attempt failed with */
+  private _lastError?: Error
+
+  private _state = new ReplaySubject<MQTTConnectionState>(1)
+
+  private _closed = false
+
+  private _queue: OutboundQueue<Message<T>>
+
+  private _queueStore?: QueueStore
+
+  /** Emits the number of messages waiting to be sent */
+  readonly queueDepth$: Observable<number>
+
+  /**
+   * Emits the state of the connection, starting with the current one. Completes
+   * once the connection is closed for good.
+   */
+  readonly state$: Observable<MQTTConnectionState> = this._state.asObservable()
+
+  private _errors = new Subject<MQTTError>()
+
+  /** Inbound messages that failed to deserialize, once per message */
+  private _failed = new WeakSet<MQTTMessage<Buffer>>()
+
+  /**
+   * Emits the errors of single messages, which are skipped while other
+   * messages keep flowing: a DeserializationError for every inbound message
+   * whose payload the codec of a topic subject cannot deserialize, and an InvalidTopicError,
+   * SerializationError or PublishError for messages sent with `next()` that
+   * cannot be published, e.g. because the publish queue is full. A
+   * StoreError for every write of the session to the `store` that fails.
+   */
+  readonly errors$: Observable<MQTTError> = this._errors.asObservable()
+
+  /** Reports writes of the session that failed, which the store does not retry */
+  private _storeFailed = (error: StoreError) => this._errors.next(error)
+
+  private _rejections = new Subject<ValidationError>()
+
+  /** Inbound messages that failed validation, once per message */
+  private _invalid = new WeakSet<MQTTMessage<Buffer>>()
+
+  /**
+   * Emits a ValidationError for every inbound message that is skipped and
+   * every outbound message that is not published because its payload is
+   * invalid.
+   */
+  readonly rejections$: Observable<ValidationError> = this._rejections.asObservable()
+
+  constructor(
+    urlOrConfig: string | MQTTSubjectConfig<MQTTPayload<T>>,
+    destination?: Observer<MQTTTopicMessage<T>>
+  ) {
     super()
     if (typeof urlOrConfig === 'string') {
       this._config.url = urlOrConfig
@@ -80,13 +534,42 @@ export class MQTTSubject<T> extends AnonymousSubject<MQTTMessage<T>> {
         }
       }
     }
+    const { client, reconnect } = this._config
+    if (client && reconnect) {
+      // Otherwise the client reconnects and resubscribes on its own as well
+      const { reconnectPeriod, resubscribe } = client.options
+      if (reconnectPeriod !== 0 || resubscribe !== false) {
+        throw new InvalidArgumentError(
+          'reconnect needs a client with reconnectPeriod: 0 and resubscribe: false'
+        )
+      }
+    }
 
-    this.destination = destination || new ReplaySubject<MQTTMessage<T>>()
+    this._queue = new OutboundQueue(this._config.queue)
+    this.queueDepth$ = this._queue.depth$.asObservable()
+    this.destination = destination || this._createDestination()
 
-    this._connectBroker()
+    this._setState({ status: 'connecting' })
+    if (destination) {
+      // Lifted subjects send through the destination and subscribe through their source
+      return
+    }
+    const { store } = this._config
+    if (store) {
+      this._queueStore = new QueueStore(store, this._storeFailed)
+      this._restore(store).catch(error => {
+        const observer = this._output
+        this._setState({ status: 'closed', error })
+        this._resetState()
+        observer.error(error)
+      })
+    } else {
+      this._connectBroker()
+    }
   }
 
-  lift<R>(operator: Operator<MQTTMessage<T>, R>): Observable<R> {
+  lift<R>(operator: Operator<MQTTTopicMessage<T>, R>): Observable<R> {
+    // Shares the connection of this subject instead of opening another one
     const connection = new MQTTSubject<R>(
       this._config as MQTTSubjectConfig<any>,
       this.destination as any
@@ -99,169 +582,1065 @@ export class MQTTSubject<T> extends AnonymousSubject<MQTTMessage<T>> {
   }
 
   private _resetState() {
-    if (this._connection) {
+    clearTimeout(this._reconnectTimer)
+    this._reconnectTimer = undefined
+    this._reconnectAttempts = 0
+    if (this._connection && (this._config.client || this._poolKey)) {
+      this._release(this._connection)
+    } else if (this._connection) {
       this._connection.end()
+    } else if (!this._closed) {
+      // Closed while the session is restored
+      this._setState({ status: 'closed' })
+    }
+    // Queued messages stay persisted to be sent by the next session
+    const { items, dropped } = this._queue.drain()
+    dropped.forEach(drop => this._drop(drop))
+    items.forEach(item => {
+      const { key } = outbound.get(item) || {}
+      this._reject(item, key ? persisted(item.topic) : notConnected(item.topic))
+    })
+    this._output = new TopicRouter<MQTTMessage<Buffer>>()
+  }
+
+  /** Detaches from a shared client, which stays connected for its other users */
+  private _release(connection: MQTTClient) {
+    this._connection = undefined
+    if (connection.connected) {
+      this._unsubscribe(connection, Array.from(this._granted.keys()))
     }
-    if (!this.source) {
-      this.destination = new ReplaySubject()
+    this._listeners.forEach(([event, listener]) => connection.removeListener(event, listener))
+    this._listeners = []
+    attached.get(connection)!.delete(this)
+    if (this._poolKey) {
+      pool.release(this._poolKey)
+      this._poolKey = undefined
     }
-    this._output = new Subject<MQTTMessage<T>>()
+    if (this._closed) return
+
+    const observer = this._output
+    this._setState({ status: 'closed' })
+    this._disconnected()
+    observer.complete()
   }
 
-  topic(topic: string): MQTTTopicSubject<T> {
-    if (topic[0] === '/') {
-      console.warn(
-        `Topic ${topic} starts with a slash which creates an empty root topic. This is handled differently between different broker implementations. (This is not OSC!)`
+  private _disconnected(e?: CloseEvent | Error) {
+    const { disconnectObserver } = this._config
+    if (disconnectObserver) {
+      disconnectObserver.next(e!)
+    }
+  }
+
+  private _createDestination(): Subscriber<MQTTTopicMessage<T>> {
+    const disconnecting = () => {
+      this._setState({ status: 'disconnecting' })
+      const { disconnectingObserver } = this._config
+      if (disconnectingObserver) {
+        disconnectingObserver.next(undefined)
+      }
+    }
+
+    return Subscriber.create<MQTTTopicMessage<T>>(
+      command => this._send((command as unknown) as Message<T>),
+      e => {
+        disconnecting()
+        this._resetState()
+      },
+      () => {
+        disconnecting()
+        this._resetState()
+      }
+    ) as Subscriber<any>
+  }
+
+  /** Sends the message if connected and queues it otherwise */
+  private _send(command?: Message<T>) {
+    if (!(command instanceof Object)) {
+      this._output.error(
+        new InvalidArgumentError('Expected MQTTMessage with at least properties topic and message')
       )
+      return
+    }
+    try {
+      validateTopic(command.topic)
+    } catch (error) {
+      this._reject(command, error)
+      return
+    }
+    const { validator } = outbound.get(command) || {}
+    if (validator !== null) {
+      const { topic, message } = command
+      const checked = resolveValidator(topic, this._config.validators, validator)
+      const reason = checked && validatePayload(checked, message)
+      if (reason) {
+        const error = new ValidationError(topic, message, reason, 'outbound')
+        this._rejections.next(error)
+        this._reject(command, error)
+        return
+      }
     }
-    if (this._connection) {
-      this._connection.subscribe(topic)
+
+    const connection = this._connection
+    if (this._closed) {
+      this._reject(command, notConnected(command.topic))
+    } else if (connection && connection.connected && !this._queue.length) {
+      this._transmit(connection, command)
+    } else {
+      const { ttl } = outbound.get(command) || {}
+      this._persist(command, ttl)
+      this._queue.push(command, ttl).forEach(drop => this._drop(drop))
     }
-    return new MQTTTopicSubject(this, topic)
   }
 
-  private _connectBroker() {
-    const { url, options } = this._config
-    const observer = this._output
+  /** Sends the queued messages in order */
+  private _flush(connection: MQTTClient) {
+    const { items, dropped } = this._queue.drain()
+    dropped.forEach(drop => this._drop(drop))
+    items.forEach(item => this._transmit(connection, item))
+  }
 
-    let connection = (this._connection = options ? connectBroker(url, options) : connectBroker(url))
+  private _transmit(connection: MQTTClient, command: Message<T>) {
+    const { topic, message, qos = 0, retain, properties } = command
+    const { serializer = this._codecFor(topic).serializer, ack } = outbound.get(command) || {}
+    this._forget(command)
 
-    connection.on('connect', (e: Event) => {
-      const { connectObserver } = this._config
-      if (connectObserver) {
-        connectObserver.next(e)
+    let payload: Buffer
+    try {
+      payload = serializer(message)
+    } catch (cause) {
+      this._reject(command, new SerializationError(topic, message, cause))
+      return
+    }
+    const options = { qos, retain, properties: toPacketProperties(properties) }
+    connection.publish(topic, payload, options as IClientPublishOptions, (cause?: Error) => {
+      if (cause) {
+        this._reject(command, new PublishError(topic, 'PUBLISHFAILED', cause.message, cause))
+      } else if (ack) {
+        ack.complete()
       }
-      const queue = this.destination
-
-      this.destination = Subscriber.create<MQTTMessage<T>>(
-        command => {
-          if (typeof command !== 'object') {
-            observer.error(
-              new Error(
-                'ERR_INVALID_ARG_TYPE: Expected MQTTMessage with at least properties topic and message'
-              )
-            )
-            return
-          }
+    })
+  }
+
+  /** Persists a queued message if the config has a store */
+  private _persist(command: Message<T>, ttl = (this._config.queue || {}).ttl) {
+    const queueStore = this._queueStore
+    if (!queueStore) return
+
+    const { topic, message, qos, retain, properties } = command
+    const options = outbound.get(command) || {}
+    let payload: Buffer
+    try {
+      payload = (options.serializer || this._codecFor(topic).serializer)(message)
+    } catch (error) {
+      // Fails again once the message is transmitted
+      return
+    }
+    const expires = ttl === undefined ? Infinity : Date.now() + ttl
+    const key = queueStore.add({ topic, payload, qos, retain, properties, expires })
+    outbound.set(command, { ...options, key })
+  }
+
+  /** Removes a message that left the queue from the store */
+  private _forget(command: Message<T>) {
+    const { key } = outbound.get(command) || {}
+    if (key && this._queueStore) {
+      this._queueStore.remove(key)
+    }
+  }
+
+  private _drop(drop: QueueDrop<Message<T>>) {
+    this._forget(drop.item)
+    this._reject(drop.item, queueError(drop))
+  }
+
+  /**
+   * Errors the acknowledgement of a message that cannot be sent. Messages
+   * without one are emitted on `errors$` if their topic is invalid or they
+   * cannot be serialized, queued or published.
+   */
+  private _reject(command: Message<T>, error: Error) {
+    const { ack } = outbound.get(command) || {}
+    const { code } = error as MQTTError
+    if (ack) {
+      ack.error(error)
+    } else if (
+      error instanceof InvalidTopicError ||
+      error instanceof SerializationError ||
+      code === 'PUBLISHFAILED' ||
+      code === 'QUEUEFULL'
+    ) {
+      this._errors.next(error as MQTTError)
+    }
+  }
 
-          const { topic, message, qos = 0, retain } = command
+  /**
+   * The codec of the messages on the topic, which subjects standing in for
+   * the broker encode and decode payloads with
+   */
+  protected _codecFor(
+    topic: string,
+    override?: MQTTCodec<MQTTPayload<T>>
+  ): Required<MQTTCodec<MQTTPayload<T>>> {
+    const { serializer, deserializer, codecs } = this._config
+    return resolveCodec(topic, { serializer, deserializer }, codecs, override)
+  }
 
-          if (connection && connection.connected) {
-            let { serializer } = this._config
-            if (!serializer) throw new Error('Serializer is undefined')
-            if (connection) {
-              connection.publish(topic, serializer(message), { qos, retain }, (error?: Error) => {
-                if (error && this.destination) this.destination.error(e)
-              })
-            }
+  /** @deprecated This is an internal implementation detail, do not use. */
+  _messages(
+    topicFilter?: string,
+    override?: MQTTCodec<MQTTPayload<T>>,
+    validator?: MQTTValidator<MQTTPayload<T>>,
+    clears = false
+  ): Observable<Message<T>> {
+    const messages: Observable<MQTTMessage<Buffer>> = topicFilter
+      ? this._output.route(topicFilter)
+      : this._output
+    return messages.pipe(
+      mergeMap(inbound => {
+        const { message, ...rest } = inbound
+        if (clears && !message.length) {
+          // Clears the retained message whatever the codec
+          return of({ ...rest, message: undefined as any })
+        }
+        let payload: MQTTPayload<T>
+        try {
+          payload = this._codecFor(rest.topic, override).deserializer(message)
+        } catch (error) {
+          // Topics are subscribed with the codecs of their topic subjects, the
+          // subject itself only skips what they may decode differently
+          if (topicFilter) {
+            this._deserializationFailed(inbound, error)
           }
-        },
-        e => {
-          const { disconnectingObserver } = this._config
-          if (disconnectingObserver) {
-            disconnectingObserver.next(undefined)
+          return EMPTY
+        }
+        const checked = resolveValidator(rest.topic, this._config.validators, validator)
+        const reason = checked && validatePayload(checked, payload)
+        if (reason) {
+          // Every subscriber of the topic validates the message
+          if (!this._invalid.has(inbound)) {
+            this._invalid.add(inbound)
+            this._rejections.next(new ValidationError(rest.topic, payload, reason, 'inbound'))
           }
-          this._resetState()
-        },
-        () => {
-          const { disconnectingObserver } = this._config
-          if (disconnectingObserver) {
-            disconnectingObserver.next(undefined)
+          return EMPTY
+        }
+        return of({ ...rest, message: payload })
+      })
+    )
+  }
+
+  private _deserializationFailed(inbound: MQTTMessage<Buffer>, cause: Error) {
+    // Every subscriber of the topic deserializes the message
+    if (this._failed.has(inbound)) return
+    this._failed.add(inbound)
+
+    const { topic, message } = inbound
+    const error = new DeserializationError(topic, message, cause)
+    this._errors.next(error)
+    const { deadLetterTopic } = this._config
+    if (deadLetterTopic && topic !== deadLetterTopic) {
+      this._publish(
+        { topic: deadLetterTopic, message: (message as unknown) as MQTTPayload<T> },
+        { properties: { userProperties: { topic, error: error.message } } },
+        rawCodec.serializer as Serializer<any>,
+        null
+      )
+    }
+  }
+
+  topic<F extends string, V extends MQTTTopicPayload<T, F> = MQTTTopicPayload<T, F>>(
+    topic: F,
+    options?: MQTTTopicOptions<V>
+  ): MQTTTopicSubject<V, TopicParams<F>> {
+    if (topic[0] === '/') {
+      console.warn(
+        `Topic ${topic} starts with a slash which creates an empty root topic. This is handled differently between different broker implementations. (This is not OSC!)`
+      )
+    }
+    return new MQTTTopicSubject<V, TopicParams<F>>(this, topic, options)
+  }
+
+  /**
+   * Returns a subject of the retained state of the topic, e.g. of a
+   * configuration. It emits the current retained value on subscribe, if there
+   * is one, and its updates, and publishes values retained with QoS 1.
+   */
+  state<Topic extends string>(
+    topic: Topic,
+    options?: MQTTTopicOptions<MQTTTopicPayload<T, Topic>>
+  ): MQTTStateSubject<MQTTTopicPayload<T, Topic>> {
+    return new MQTTStateSubject<MQTTTopicPayload<T, Topic>>(this, topic, options)
+  }
+
+  /**
+   * Emits the last message of every topic matching the filter as a Map keyed
+   * by topic whenever a message arrives or an entry is removed.
+   */
+  snapshot<F extends string>(
+    topicFilter: F,
+    options: MQTTSnapshotOptions & MQTTTopicOptions<MQTTTopicPayload<T, F>> = {}
+  ): Observable<MQTTSnapshot<MQTTTopicPayload<T, F>>> {
+    const { maxAge, ...topicOptions } = options
+    const { filter: plain } = parseSharedFilter(parseTopicPattern(topicFilter).filter)
+    return this.topic(topicFilter, topicOptions).pipe(snapshot(plain, { maxAge }))
+  }
+
+  /** @deprecated This is an internal implementation detail, do not use. */
+  _observeTopic(topic: string, options?: MQTTSubscribeOptions): Subscription {
+    // Other subjects of a shared client receive the messages of its subscriptions too
+    const connection = this._connection
+    const subjects: MQTTSubject<any>[] = connection ? Array.from(attached.get(connection)!) : [this]
+    const conflicting = subjects
+      .map(subject => subject._topics.conflicting(topic))
+      .find(other => other !== undefined)
+    if (conflicting !== undefined) {
+      throw new SubscriptionConflictError(topic, conflicting)
+    }
+    this._topics.add(topic, options)
+    this._syncSubscriptions()
+    return new Subscription(() => {
+      this._topics.remove(topic, options)
+      this._syncSubscriptions()
+    })
+  }
+
+  /**
+   * @deprecated This is an internal implementation detail, do not use.
+   *
+   * Emits the current and future SUBACK results of the broker subscription
+   * messages on the topic are received through.
+   */
+  _grantsFor(topic: string): Observable<ISubscriptionGrant> {
+    const current = defer(() => {
+      const serving = this._topics.serving(topic)
+      const qos = serving === undefined ? undefined : this._granted.get(serving)
+      return qos === undefined ? EMPTY : of({ topic: serving!, qos })
+    })
+    const future = new Observable<ISubscriptionGrant>(subscriber => {
+      const grants = this._grants.get(topic) || new Subject<ISubscriptionGrant>()
+      this._grants.set(topic, grants)
+      const subscription = grants.subscribe(subscriber)
+      return () => {
+        subscription.unsubscribe()
+        if (!grants.observers.length) {
+          this._grants.delete(topic)
+        }
+      }
+    })
+    return concat(current, future)
+  }
+
+  /**
+   * Subscribes and unsubscribes at the broker so only filters with
+   * observers are subscribed. Runs again once connected.
+   */
+  private _syncSubscriptions() {
+    const connection = this._connection
+    if (!connection || !connection.connected) return
+
+    const { subscribe, unsubscribe } = this._topics.sync()
+    // Filters with different subscription identifiers need a SUBSCRIBE each
+    const packets = new Map<number | undefined, ISubscriptionMap>()
+    Object.keys(subscribe).forEach(topic => {
+      const options = subscribe[topic]
+      const { qos = 0, noLocal, retainAsPublished, retainHandling } = options
+      const identifier = this._isV5() ? options.subscriptionIdentifier : undefined
+      const subscriptions = packets.get(identifier) || {}
+      subscriptions[topic] = { qos, nl: noLocal, rap: retainAsPublished, rh: retainHandling }
+      packets.set(identifier, subscriptions)
+    })
+    packets.forEach((subscriptions, identifier) =>
+      this._subscribeAt(connection, subscriptions, identifier)
+    )
+    if (unsubscribe.length) {
+      this._unsubscribe(connection, unsubscribe)
+    }
+  }
+
+  private _subscribeAt(
+    connection: MQTTClient,
+    subscriptions: ISubscriptionMap,
+    subscriptionIdentifier?: number
+  ) {
+    const filters = Object.keys(subscriptions)
+    const at = ++this._subscribes
+    filters.forEach(topic =>
+      this._subscribedWith.set(topic, { at, retainAsPublished: subscriptions[topic].rap })
+    )
+    const properties = subscriptionIdentifier === undefined ? undefined : { subscriptionIdentifier }
+    const subscribe = connection.subscribe as ClientSubscribe
+    subscribe.call(connection, subscriptions, { properties }, (error, granted) => {
+      if (error) {
+        filters.forEach(topic => this._topics.failed(topic))
+        // Once the connection is closed, if it was lost, as reconnecting subscribes again
+        setTimeout(() => {
+          if (connection.connected && !connection.disconnecting) {
+            filters.forEach(topic => this._subscribeFailed(topic, error))
           }
-          connection.end()
-          this._resetState()
+        })
+        return
+      }
+      let rejected = false
+      granted.forEach(grant => {
+        this._granted.set(grant.topic, grant.qos)
+        if (grant.qos & 0x80) {
+          this._topics.reject(grant.topic)
+          rejected = true
         }
-      ) as Subscriber<any>
+        // Only to the topic subjects the subscription serves
+        this._topics.served(grant.topic).forEach(topic => {
+          const grants = this._grants.get(topic)
+          if (grants) {
+            grants.next(grant)
+          }
+        })
+      })
+      if (rejected) {
+        // Filters the rejected ones covered are subscribed on their own
+        this._syncSubscriptions()
+      }
+    })
+  }
 
-      if (queue && queue instanceof ReplaySubject) {
-        ;(queue as ReplaySubject<MQTTMessage<T>>).subscribe(this.destination)
+  /** Errors the topic subjects the filter serves */
+  private _subscribeFailed(topicFilter: string, cause: Error) {
+    const error = new SubscriptionFailedError(topicFilter, cause)
+    this._topics.served(topicFilter).forEach(topic => {
+      const grants = this._grants.get(topic)
+      if (grants) {
+        this._grants.delete(topic)
+        grants.error(error)
       }
     })
+  }
 
-    connection.on('error', e => {
-      this._resetState()
-      observer.error(e)
+  /**
+   * @deprecated This is an internal implementation detail, do not use.
+   *
+   * Whether a retained message on the topic may be a response to a SUBSCRIBE
+   * sent after the given one. Never with `retainAsPublished`, as live
+   * messages are retained then too.
+   */
+  _resubscribed(topic: string, since: number): boolean {
+    let resubscribed = false
+    let retainedAsPublished = false
+    this._subscribedWith.forEach(({ at, retainAsPublished }, topicFilter) => {
+      const { shareGroup, filter: plain } = parseSharedFilter(topicFilter)
+      if (shareGroup !== undefined || mqttWildcard(topic, plain) === null) return
+      retainedAsPublished = retainedAsPublished || !!retainAsPublished
+      resubscribed = resubscribed || at > since
     })
-    ;(connection as any).stream.on('error', (e: Error) => {
-      this._resetState()
-      observer.error(e)
+    return resubscribed && !retainedAsPublished
+  }
+
+  /** Unsubscribes from the filters unless other subjects of the client are subscribed to them */
+  private _unsubscribe(connection: MQTTClient, filters: string[]) {
+    filters.forEach(topic => {
+      this._granted.delete(topic)
+      this._subscribedWith.delete(topic)
     })
+    const others = Array.from(attached.get(connection)!).filter(subject => subject !== this)
+    const used = ([] as string[]).concat(...others.map(subject => subject._topics.effective()))
+    const unused = filters.filter(topic => used.indexOf(topic) === -1)
+    if (unused.length) {
+      connection.unsubscribe(unused)
+    }
+  }
 
-    connection.on('end', (e: CloseEvent) => {
-      this._resetState()
-      const { disconnectObserver } = this._config
-      if (disconnectObserver) {
-        disconnectObserver.next(e)
+  /**
+   * Loads the session persisted by a previous run before connecting. The mqtt
+   * library resends the unacknowledged packets and the queued messages are
+   * flushed before messages queued in the meantime.
+   */
+  private async _restore(store: MQTTStore) {
+    const incomingStore = new PacketStore(store, 'incoming/', this._storeFailed)
+    const outgoingStore = new PacketStore(store, 'outgoing/', this._storeFailed)
+    await Promise.all([incomingStore.load(), outgoingStore.load()])
+    const queued = await this._queueStore!.load()
+    if (this._closed) return
+
+    const entries = queued.map(([key, { topic, payload, qos, retain, properties, expires }]) => {
+      const item: MQTTMessage<any> = { topic, message: payload, qos, retain, properties }
+      outbound.set(item, { serializer: rawCodec.serializer, key })
+      return { item, expires }
+    })
+    this._queue.restore(entries).forEach(drop => this._drop(drop))
+    this._connectBroker({ incomingStore, outgoingStore })
+  }
+
+  private _createClient(stores: MQTTClientOptions): MQTTClient {
+    const { url, options, reconnect, client, transport } = this._config
+    if (client) return client
+
+    // Subscriptions are restored by the subject itself after reconnecting
+    const clientOptions: MQTTClientOptions = {
+      ...stores,
+      ...options,
+      ...(reconnect ? { reconnectPeriod: 0 } : {}),
+      resubscribe: false
+    }
+    if (!transport && !stores.incomingStore && poolable(clientOptions)) {
+      // Subjects with identical configs share the client
+      const key = (this._poolKey = JSON.stringify([url, clientOptions]))
+      return pool.acquire(key, () => connectBroker(url, clientOptions))
+    }
+    if (!transport) return connectBroker(url, clientOptions)
+
+    return new MQTTClient(client => {
+      const stream = transport(client)
+      stream.on('error', (error: Error) => client.emit('error', error))
+      return stream
+    }, clientOptions)
+  }
+
+  private _on(connection: EventEmitter, event: string, listener: (...args: any[]) => void) {
+    connection.on(event, listener)
+    this._listeners.push([event, listener])
+  }
+
+  private _connectBroker(stores: MQTTClientOptions = {}) {
+    const { reconnect } = this._config
+    const observer = this._output
+    const connection = (this._connection = this._createClient(stores))
+    const subjects = attached.get(connection) || new Set<MQTTSubject<any>>()
+    attached.set(connection, subjects.add(this))
+
+    this._on(connection, 'error', (e: Error) => {
+      this._lastError = connectionError(e)
+    })
+    this._on(connection, 'close', () => {
+      if (!connection.disconnecting) {
+        this._setState({ status: 'offline', error: this._lastError })
+        this._disconnected(this._lastError)
       }
-      observer.complete()
     })
-    connection.on('message', (topic: string, message: Buffer) => {
-      // TODO: Serialize/deserialize per topic
-      try {
-        const { deserializer } = this._config
-        if (!deserializer) throw new Error('Deserializer is undefined')
-        observer.next({
-          topic,
-          message: deserializer(message)
+
+    if (reconnect) {
+      this._handleReconnect(connection, reconnectStrategy(reconnect))
+    } else {
+      this._on(connection, 'reconnect', () => {
+        this._setState({
+          status: 'reconnecting',
+          attempt: ++this._reconnectAttempts,
+          error: this._lastError
         })
-      } catch (err) {
-        observer.error(err)
+      })
+    }
+
+    const connected = (e?: Event) => {
+      this._reconnectAttempts = 0
+      this._lastError = undefined
+      this._setState({ status: 'connected', connack: (e as unknown) as IConnackPacket | undefined })
+      const { connectObserver } = this._config
+      if (connectObserver) {
+        connectObserver.next(e!)
       }
+      this._topics.reset()
+      this._granted.clear()
+      this._subscribedWith.clear()
+      this._syncSubscriptions()
+
+      this._flush(connection)
+    }
+    this._on(connection, 'connect', connected)
+
+    if (!reconnect) {
+      this._on(connection, 'error', (e: Error) => {
+        const error = connectionError(e)
+        this._setState({ status: 'closed', error })
+        this._resetState()
+        observer.error(error)
+      })
+    }
+
+    this._on(connection, 'end', (e: CloseEvent) => {
+      this._setState({ status: 'closed' })
+      this._resetState()
+      this._disconnected(e)
+      observer.complete()
+    })
+    this._on(connection, 'message', (topic: string, message: Buffer, packet: IPublishPacket) => {
+      // Other users of a shared client receive the messages of their topics too
+      if (!this._topics.matches(topic)) return
+      const { qos, retain, dup } = packet
+      const properties = fromPacketProperties(packet.properties)
+      const inbound: MQTTMessage<Buffer> = { topic, message, qos, retain, dup, packet }
+      observer.next(properties ? { ...inbound, properties } : inbound)
     })
+
+    if (connection.connected) {
+      // A client of the config may be connected already
+      connected()
+    }
+  }
+
+  private _setState(state: MQTTConnectionState) {
+    this._state.next(state)
+    if (state.status === 'closed') {
+      this._closed = true
+      this._state.complete()
+    }
   }
 
-  publish(topic: string, message: T) {
-    if (!this.destination) return
+  /**
+   * Reconnects with the delays of the strategy whenever the connection closes
+   * without being ended, and errors or completes the subject once the
+   * strategy gives up.
+   */
+  private _handleReconnect(connection: MQTTClient, strategy: MQTTReconnectStrategy) {
+    const observer = this._output
+
+    this._on(connection, 'close', () => {
+      if (connection.disconnecting || this._reconnectTimer) return
+
+      const error = this._lastError
+      const attempt = ++this._reconnectAttempts
+      const delay = strategy(attempt, error)
+      if (delay === null) {
+        this._setState({ status: 'closed', error })
+        error ? observer.error(error) : observer.complete()
+        this._resetState()
+        return
+      }
 
-    this.destination.next({
-      topic,
-      message
+      this._setState({ status: 'reconnecting', attempt, delay, error })
+      const stream = streamOf(connection)
+      this._reconnectTimer = setTimeout(() => {
+        this._reconnectTimer = undefined
+        // Another subject of a shared client reconnected it already
+        if (streamOf(connection) !== stream) return
+        const { incomingStore, outgoingStore } = connection
+        connection.reconnect({ incomingStore, outgoingStore })
+      }, delay)
     })
   }
 
+  /**
+   * Publishes a message on the topic. The returned Observable completes when
+   * the message is acknowledged, i.e. when it is sent for QoS 0, on PUBACK for
+   * QoS 1 and on PUBCOMP for QoS 2, and errors if publishing fails, e.g. with
+   * NOTCONNECTED once the subject is completed.
+   */
+  publish<Topic extends string>(
+    topic: Topic,
+    message: MQTTTopicPayload<T, Topic>,
+    options?: MQTTPublishOptions
+  ): Observable<void> {
+    return this._publish({ topic, message: message as MQTTPayload<T> }, options)
+  }
+
   /** @deprecated This is an internal implementation detail, do not use. */
-  _subscribe(subscriber: Subscriber<MQTTMessage<T>>): Subscription {
+  _publish(
+    { topic, message }: Message<T>,
+    options: MQTTPublishOptions = {},
+    serializer?: Serializer<MQTTPayload<T>>,
+    validator?: MQTTValidator<MQTTPayload<T>> | null
+  ): Observable<void> {
+    const { qos, retain, ttl, properties, timeout = this._config.publishTimeout } = options
+    if (this._closed || (this.destination as Subscriber<any>).closed) {
+      // The completed subject ignores the message
+      return throwError(notConnected(topic))
+    }
+    const ack = new AsyncSubject<void>()
+    if (timeout !== undefined) {
+      const timer = setTimeout(
+        () =>
+          ack.error(
+            new PublishError(
+              topic,
+              'PUBLISHTIMEOUT',
+              `Publish on ${topic} not acknowledged within ${timeout}ms`
+            )
+          ),
+        timeout
+      )
+      ack.subscribe({ error: () => clearTimeout(timer), complete: () => clearTimeout(timer) })
+    }
+
+    const command: Message<T> = { topic, message, qos, retain, properties }
+    outbound.set(command, { serializer, validator, ack, ttl })
+    this.next((command as unknown) as MQTTTopicMessage<T>)
+    return ack.asObservable()
+  }
+
+  /**
+   * Publishes a request and emits the reply. With MQTT 5 the reply topic and
+   * correlation id are sent as properties, otherwise the request is wrapped
+   * in an MQTTRequestEnvelope, which needs a codec that can encode objects.
+   */
+  request<R = MQTTPayload<T>, Topic extends string = string>(
+    topic: Topic,
+    message: MQTTTopicPayload<T, Topic>,
+    options: MQTTRequestOptions = {}
+  ): Observable<R> {
+    const { qos, properties, timeout = this._config.publishTimeout } = options
+    return defer(() => {
+      const correlationId = randomId()
+      const responseTopic = this._responseTopic()
+      const replies = this.topic(responseTopic, { qos })
+
+      let request: Observable<void>
+      let reply: Observable<R>
+      if (this._isV5()) {
+        const correlationData = Buffer.from(correlationId)
+        reply = replies.pipe(
+          filter(
+            ({ properties = {} }) =>
+              !!properties.correlationData && correlationData.equals(properties.correlationData)
+          ),
+          mergeMap(({ message, properties = {} }) => {
+            const { userProperties = {} } = properties
+            return REPLY_ERROR_PROPERTY in userProperties
+              ? throwError(requestError(topic, String(userProperties[REPLY_ERROR_PROPERTY])))
+              : of((message as unknown) as R)
+          })
+        )
+        request = this._publish(
+          { topic, message },
+          { qos, properties: { ...properties, responseTopic, correlationData } }
+        )
+      } else {
+        const envelope: MQTTRequestEnvelope<MQTTPayload<T>> = {
+          correlationId,
+          responseTopic,
+          payload: message
+        }
+        reply = ((replies as unknown) as Observable<MQTTMessage<MQTTReplyEnvelope<R>>>).pipe(
+          filter(
+            ({ message }) => message instanceof Object && message.correlationId === correlationId
+          ),
+          mergeMap(({ message: { payload, error } }) =>
+            error === undefined ? of(payload as R) : throwError(requestError(topic, error))
+          )
+        )
+        request = this._publish(
+          { topic, message: (envelope as unknown) as MQTTPayload<T> },
+          { qos, properties }
+        )
+      }
+
+      const timeoutError =
+        timeout === undefined
+          ? NEVER
+          : timer(timeout).pipe(mergeMap(() => throwError(requestTimeout(topic, timeout))))
+      return new Observable<R>(subscriber => {
+        const subscription = merge(reply, timeoutError).pipe(take(1)).subscribe(subscriber)
+        subscription.add(request.subscribe({ error: error => subscriber.error(error) }))
+        return subscription
+      })
+    })
+  }
+
+  /**
+   * Replies to requests on the topic filter with the results of the handler.
+   * Errors of the handler are sent to the requester. Messages that are not
+   * requests are ignored. Unsubscribe to stop responding.
+   */
+  respond<R = MQTTPayload<T>, F extends string = string>(
+    topicFilter: F,
+    handler: MQTTResponder<MQTTTopicPayload<T, F>, R>,
+    options: MQTTRespondOptions = {}
+  ): Subscription {
+    const { qos, shareGroup } = options
+    const v5 = this._isV5()
+    return this.topic(topicFilter, { qos, shareGroup })
+      .pipe(
+        mergeMap(({ topic, message, properties = {} }) => {
+          let payload: MQTTTopicPayload<T, F>
+          let reply: (result: { payload?: R; error?: string }) => Observable<void>
+          if (v5 && properties.responseTopic) {
+            const { responseTopic, correlationData } = properties
+            payload = message
+            reply = ({ payload, error }) =>
+              this._publish(
+                { topic: responseTopic, message: (payload === undefined ? null : payload) as any },
+                {
+                  qos,
+                  properties: {
+                    correlationData,
+                    userProperties:
+                      error === undefined ? undefined : { [REPLY_ERROR_PROPERTY]: error }
+                  }
+                }
+              )
+          } else if (isEnvelope(message)) {
+            const { correlationId, responseTopic } = message
+            payload = message.payload
+            reply = result =>
+              this._publish(
+                { topic: responseTopic, message: { correlationId, ...result } as any },
+                { qos }
+              )
+          } else {
+            return EMPTY
+          }
+
+          return defer(() => fromResult(handler(payload, { topic, properties }))).pipe(
+            take(1),
+            map(result => ({ payload: result })),
+            catchError((error: Error) => of({ error: error.message || String(error) })),
+            mergeMap(reply),
+            catchError(() => EMPTY)
+          )
+        })
+      )
+      .subscribe()
+  }
+
+  private _isV5() {
+    const { options = {} } = this._config
+    return options.protocolVersion === 5
+  }
+
+  private _responseTopic() {
+    if (!this._config.responseTopic) {
+      this._config.responseTopic = `musquette/replies/${randomId()}`
+    }
+    return this._config.responseTopic
+  }
+
+  /** @deprecated This is an internal implementation detail, do not use. */
+  _subscribe(subscriber: Subscriber<MQTTTopicMessage<T>>): Subscription {
     const { source } = this
     if (source) {
       return source.subscribe(subscriber)
     }
     if (this._output) {
-      this._output.subscribe(subscriber)
+      return this._messages().subscribe((subscriber as unknown) as Subscriber<Message<T>>)
     }
     return subscriber
   }
 }
 
-const isWildcardTopic = (topic: string) => topic.includes('#') || topic.includes('+')
-export class MQTTTopicSubject<T> extends AnonymousSubject<MQTTMessage<T>> {
-  source: MQTTSubject<T>
+export class MQTTTopicSubject<
+  T,
+  P extends MQTTTopicParams = MQTTTopicParams
+> extends AnonymousSubject<MQTTTopicSubjectMessage<T, P>> {
+  source: MQTTSubject<any>
+
+  private _codec?: MQTTCodec<T>
+
+  private _validator?: MQTTValidator<T>
 
-  constructor(source: MQTTSubject<T>, private _topic: string) {
-    super(source, source)
+  private _subscribeOptions: MQTTSubscribeOptions
+
+  /** The filter messages are matched against, without the share prefix */
+  private _topic: string
+
+  /** The filter subscribed at the broker */
+  private _filter: string
+
+  /** The names of the wildcards of `_topic`, if it has named wildcards */
+  private _pattern?: TopicPattern
+
+  constructor(source: MQTTSubject<any>, topic: string, options: MQTTTopicOptions<T> = {}) {
+    super(source, source as Observable<any>)
     this.source = source
+
+    const {
+      raw,
+      serializer,
+      deserializer,
+      validator,
+      shareGroup,
+      qos,
+      noLocal,
+      retainAsPublished,
+      retainHandling,
+      subscriptionIdentifier
+    } = options
+    const pattern = parseTopicPattern(shareGroup ? sharedFilter(shareGroup, topic) : topic)
+    this._filter = pattern.filter
+    validateFilter(this._filter)
+    this._topic = parseSharedFilter(this._filter).filter
+    if (hasParams(pattern)) {
+      this._pattern = { filter: this._topic, names: pattern.names }
+    }
+    this._subscribeOptions = {
+      qos,
+      noLocal,
+      retainAsPublished,
+      retainHandling,
+      subscriptionIdentifier
+    }
+    this._validator = validator
+    if (raw) {
+      this._codec = (rawCodec as unknown) as MQTTCodec<T>
+    } else if (serializer || deserializer) {
+      this._codec = { serializer, deserializer }
+    }
+  }
+
+  /**
+   * Emits the QoS granted by the broker for the topic once it is subscribed.
+   * Errors with a SubscriptionRejectedError if the broker rejects it and with
+   * a SubscriptionFailedError if it cannot be subscribed.
+   */
+  get granted$(): Observable<MQTTQoS> {
+    return this.source
+      ._grantsFor(this._filter)
+      .pipe(
+        mergeMap(grant =>
+          grant.qos & 0x80
+            ? throwError(new SubscriptionRejectedError(grant.topic, grant.qos))
+            : of(grant.qos as MQTTQoS)
+        )
+      )
+  }
+
+  /**
+   * Emits the retained messages the broker sends when the topic is subscribed,
+   * but not again when it sends them for another subscription of the topic
+   */
+  get retained$(): Observable<MQTTTopicSubjectMessage<T, P>> {
+    return this.pipe(filter(({ retain }) => !!retain))
   }
 
-  publish(message: T) {
-    if (isWildcardTopic(this._topic)) {
-      throw new Error('INVALIDTOPIC: Cannot publish on wildcard topic')
+  /** Emits the messages published while the topic is subscribed */
+  get live$(): Observable<MQTTTopicSubjectMessage<T, P>> {
+    return this.pipe(filter(({ retain }) => !retain))
+  }
+
+  next(value: MQTTMessage<T, P>) {
+    const { _codec, _validator } = this
+    const serializer = _codec && _codec.serializer
+    if ((serializer || _validator) && value instanceof Object) {
+      value = { ...value }
+      outbound.set(value, { serializer, validator: _validator })
     }
-    let observer: MQTTSubject<T> = this.source
-    observer.next({ topic: this._topic, message })
+    // Only received messages carry params
+    super.next(value as MQTTTopicSubjectMessage<T, P>)
   }
 
-  _subscribe(subscriber: Subscriber<MQTTMessage<T>>) {
-    // FIXME: Actual subscribe should be executed here
+  /**
+   * Publishes a message on the topic. The returned Observable completes when
+   * the message is acknowledged.
+   */
+  publish(message: T, options?: MQTTPublishOptions): Observable<void> {
+    validateTopic(this._topic)
+    const { _codec } = this
+    return this.source._publish(
+      { topic: this._topic, message },
+      options,
+      _codec && _codec.serializer,
+      this._validator
+    )
+  }
 
+  _subscribe(subscriber: Subscriber<MQTTTopicSubjectMessage<T, P>>) {
     const { source } = this
     if (source) {
-      return this.source
-        .pipe(filter(packet => !!mqttWildcard(packet.topic, this._topic)))
-        .subscribe(subscriber)
+      const { _pattern } = this
+      const received = source
+        ._messages(this._topic, this._codec, this._validator, clearable.has(this))
+        .pipe(withoutRedeliveries(source)) as Observable<MQTTMessage<T, P>>
+      const messages = (_pattern
+        ? received.pipe(
+            map(message => ({
+              ...message,
+              params: (topicParams(message.topic, _pattern) || {}) as P
+            }))
+          )
+        : received) as Observable<MQTTTopicSubjectMessage<T, P>>
+      const rejections = this.granted$.pipe(filter(() => false)) as Observable<never>
+      const subscription = merge(messages, rejections).subscribe(subscriber)
+      try {
+        subscription.add(source._observeTopic(this._filter, this._subscribeOptions))
+      } catch (error) {
+        subscriber.error(error)
+      }
+      return subscription
     } else {
       return Subscription.EMPTY
     }
   }
 }
 
-export const connect = <T>(urlOrConfig: string | MQTTSubjectConfig<T>) =>
-  new MQTTSubject(urlOrConfig)
+/**
+ * The retained value of a topic, `undefined` once the retained message is
+ * cleared. Nothing is emitted for a topic without a retained message until a
+ * value is published, as the broker does not tell that none is retained.
+ * Completing or erroring the subject completes or errors the connection, like
+ * topic subjects do.
+ */
+export class MQTTStateSubject<T> extends Subject<T | undefined> {
+  private _connection: MQTTSubject<any>
+
+  private _topic: string
+
+  private _subject: MQTTTopicSubject<T>
+
+  private _values: Observable<T | undefined>
+
+  private _known = false
+
+  private _value?: T
+
+  constructor(source: MQTTSubject<any>, topic: string, options: MQTTTopicOptions<T> = {}) {
+    super()
+    validateTopic(topic)
+    this._connection = source
+    this._topic = topic
+    this._subject = new MQTTTopicSubject<T>(source, topic, { qos: 1, ...options })
+    clearable.add(this._subject)
+    this._values = this._subject.pipe(
+      map(({ message }) => message as T | undefined),
+      tap(value => {
+        this._value = value
+        this._known = true
+      }),
+      finalize(() => {
+        this._value = undefined
+        this._known = false
+      }),
+      share()
+    )
+  }
+
+  /** The last value received while the subject is subscribed */
+  get value(): T | undefined {
+    return this._value
+  }
+
+  /** Publishes the value retained */
+  next(value?: T) {
+    this.publish(value as T)
+  }
+
+  error(error: any) {
+    this._subject.error(error)
+  }
+
+  complete() {
+    this._subject.complete()
+  }
+
+  /**
+   * Publishes the value retained with QoS 1. The returned Observable completes
+   * when the message is acknowledged.
+   */
+  publish(value: T, options?: MQTTPublishOptions): Observable<void> {
+    return this._subject.publish(value, { qos: 1, ...options, retain: true })
+  }
+
+  /** Deletes the retained message by publishing an empty retained payload */
+  clear(options?: MQTTPublishOptions): Observable<void> {
+    return this._connection._publish(
+      { topic: this._topic, message: Buffer.alloc(0) },
+      { qos: 1, ...options, retain: true },
+      rawCodec.serializer,
+      null
+    )
+  }
+
+  /** @deprecated This is an internal implementation detail, do not use. */
+  _subscribe(subscriber: Subscriber<T | undefined>): Subscription {
+    if (this._known) {
+      // The broker sent the retained message to the first subscriber only
+      subscriber.next(this._value)
+    }
+    return this._values.subscribe(subscriber)
+  }
+}
+
+export const connect = <T = any>(urlOrConfig: string | MQTTSubjectConfig<MQTTPayload<T>>) =>
+  new MQTTSubject<T>(urlOrConfig)
@@ -0,0 +1,128 @@
+import { BehaviorSubject } from 'rxjs'
+
+/**
+ * What happens when a message is queued while the queue is full:
+ * - `drop-oldest` drops the oldest queued message
+ * - `drop-newest` drops the message that is queued
+ * - `last-value-per-topic` replaces queued messages on the same topic and
+ *   drops the oldest message if the queue is still full
+ * - `error` rejects the message that is queued with an error
+ */
+export type MQTTOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'last-value-per-topic' | 'error'
+
+export interface MQTTQueueOptions {
+  /** Maximum number of queued messages. Unlimited by default. */
+  capacity?: number
+  /** Defaults to `drop-oldest` */
+  overflow?: MQTTOverflowPolicy
+  /** Milliseconds after which queued messages expire. Unlimited by default. */
+  ttl?: number
+}
+
+export interface QueueDrop<T> {
+  item: T
+  /**
+   * `overflow` if dropped to make room or replaced by a newer message,
+   * `full` if rejected by the `error` policy and `expired` if its ttl passed
+   */
+  reason: 'overflow' | 'full' | 'expired'
+}
+
+export interface QueueEntry<T> {
+  item: T
+  /** Timestamp in milliseconds, Infinity if the item does not expire */
+  expires: number
+}
+
+/**
+ * Holds messages published while disconnected until they can be sent, in
+ * the order they were published.
+ */
+export default class OutboundQueue<T extends { topic: string }> {
+  private _entries: QueueEntry<T>[] = []
+
+  /** Emits the number of queued messages */
+  readonly depth$ = new BehaviorSubject<number>(0)
+
+  constructor(private _options: MQTTQueueOptions = {}) {}
+
+  get length() {
+    return this._entries.length
+  }
+
+  /**
+   * Queues the item and returns the items that were dropped as a result,
+   * including the item itself if it was not queued.
+   */
+  push(item: T, ttl = this._options.ttl, now = Date.now()): QueueDrop<T>[] {
+    const { capacity = Infinity, overflow = 'drop-oldest' } = this._options
+    const dropped = this._expire(now)
+
+    if (overflow === 'last-value-per-topic') {
+      this._entries = this._entries.filter(entry => {
+        if (entry.item.topic !== item.topic) return true
+        dropped.push({ item: entry.item, reason: 'overflow' })
+        return false
+      })
+    }
+
+    if (this._entries.length >= capacity) {
+      if (overflow === 'error') {
+        dropped.push({ item, reason: 'full' })
+        return this._update(dropped)
+      } else if (overflow === 'drop-newest' || capacity <= 0) {
+        dropped.push({ item, reason: 'overflow' })
+        return this._update(dropped)
+      }
+      const removed = this._entries.splice(0, this._entries.length - capacity + 1)
+      removed.forEach(entry => dropped.push({ item: entry.item, reason: 'overflow' }))
+    }
+
+    this._entries.push({ item, expires: ttl === undefined ? Infinity : now + ttl })
+    return this._update(dropped)
+  }
+
+  /**
+   * Puts the entries of a previous session in front of the queue and drops
+   * the oldest entries if the queue exceeds its capacity.
+   */
+  restore(entries: QueueEntry<T>[], now = Date.now()): QueueDrop<T>[] {
+    const { capacity = Infinity } = this._options
+    this._entries = [...entries, ...this._entries]
+    const dropped = this._expire(now)
+    if (this._entries.length > capacity) {
+      const removed = this._entries.splice(0, this._entries.length - capacity)
+      removed.forEach(entry => dropped.push({ item: entry.item, reason: 'overflow' }))
+    }
+    return this._update(dropped)
+  }
+
+  /**
+   * Empties the queue and returns the queued items in order along with the
+   * items that expired.
+   */
+  drain(now = Date.now()): { items: T[]; dropped: QueueDrop<T>[] } {
+    const dropped = this._expire(now)
+    const items = this._entries.map(entry => entry.item)
+    this._entries = []
+    this._update(dropped)
+    return { items, dropped }
+  }
+
+  private _expire(now: number): QueueDrop<T>[] {
+    const dropped: QueueDrop<T>[] = []
+    this._entries = this._entries.filter(entry => {
+      if (entry.expires > now) return true
+      dropped.push({ item: entry.item, reason: 'expired' })
+      return false
+    })
+    return dropped
+  }
+
+  private _update(dropped: QueueDrop<T>[]) {
+    if (this.depth$.value !== this._entries.length) {
+      this.depth$.next(this._entries.length)
+    }
+    return dropped
+  }
+}
@@ -0,0 +1,169 @@
+import mqttWildcard from './mqtt-wildcard'
+
+/** A type guard that narrows payloads to `T` */
+export type MQTTTypeGuard<T> = (value: unknown) => value is T
+
+export type MQTTJSONSchemaType =
+  | 'null'
+  | 'boolean'
+  | 'number'
+  | 'integer'
+  | 'string'
+  | 'array'
+  | 'object'
+
+/** The subset of JSON Schema that payloads are validated with */
+export interface MQTTJSONSchema {
+  type?: MQTTJSONSchemaType | MQTTJSONSchemaType[]
+  enum?: any[]
+  const?: any
+  properties?: { [name: string]: MQTTJSONSchema }
+  required?: string[]
+  additionalProperties?: boolean | MQTTJSONSchema
+  items?: MQTTJSONSchema
+  minItems?: number
+  maxItems?: number
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  anyOf?: MQTTJSONSchema[]
+  allOf?: MQTTJSONSchema[]
+}
+
+/**
+ * Checks payloads before they reach subscribers or are published. Type
+ * guards narrow the payload type of topic subjects.
+ */
+export type MQTTValidator<T = any> = MQTTTypeGuard<T> | MQTTJSONSchema
+
+/** Validators keyed by (wildcard) topic filter, e.g. `{ 'sensors/#': isReading }` */
+export interface MQTTValidatorRules {
+  [filter: string]: MQTTValidator
+}
+
+const typeOf = (value: any): MQTTJSONSchemaType => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && value % 1 === 0) return 'integer'
+  return typeof value as MQTTJSONSchemaType
+}
+
+const hasType = (value: any, type: MQTTJSONSchemaType) => {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+const equal = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b)
+
+/** Returns why the value does not match the schema, or null if it does */
+export function schemaError(schema: MQTTJSONSchema, value: any, path = '$'): string | null {
+  const { type } = schema
+  if (type !== undefined) {
+    const types = Array.isArray(type) ? type : [type]
+    if (!types.some(type => hasType(value, type))) {
+      return `${path} should be ${types.join(' or ')}`
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => equal(option, value))) {
+    return `${path} should be one of ${JSON.stringify(schema.enum)}`
+  }
+  if ('const' in schema && !equal(schema.const, value)) {
+    return `${path} should be ${JSON.stringify(schema.const)}`
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `${path} should be >= ${schema.minimum}`
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `${path} should be <= ${schema.maximum}`
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return `${path} should have at least ${schema.minLength} characters`
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `${path} should have at most ${schema.maxLength} characters`
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      return `${path} should match ${schema.pattern}`
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return `${path} should have at least ${schema.minItems} items`
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return `${path} should have at most ${schema.maxItems} items`
+    }
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        const error = schemaError(schema.items, value[i], `${path}[${i}]`)
+        if (error) return error
+      }
+    }
+  } else if (value instanceof Object) {
+    const { properties = {}, required = [], additionalProperties } = schema
+    for (const name of required) {
+      if (!(name in value)) return `${path}.${name} is required`
+    }
+    for (const name of Object.keys(value)) {
+      const property = properties[name]
+      if (property) {
+        const error = schemaError(property, value[name], `${path}.${name}`)
+        if (error) return error
+      } else if (additionalProperties === false) {
+        return `${path}.${name} is not allowed`
+      } else if (additionalProperties instanceof Object) {
+        const error = schemaError(additionalProperties, value[name], `${path}.${name}`)
+        if (error) return error
+      }
+    }
+  }
+
+  if (schema.anyOf && schema.anyOf.every(option => schemaError(option, value, path) !== null)) {
+    return `${path} should match a schema of anyOf`
+  }
+  if (schema.allOf) {
+    for (const option of schema.allOf) {
+      const error = schemaError(option, value, path)
+      if (error) return error
+    }
+  }
+  return null
+}
+
+/**
+ * Returns why the payload is invalid, or null if it is valid. Payloads a type
+ * guard or schema throws on, e.g. with an invalid `pattern`, are invalid.
+ */
+export function validatePayload(validator: MQTTValidator, value: any): string | null {
+  const name = typeof validator === 'function' ? validator.name || 'type guard' : 'schema'
+  try {
+    if (typeof validator === 'function') {
+      return validator(value) ? null : `${name} rejected the payload`
+    }
+    return schemaError(validator, value)
+  } catch (error) {
+    return `${name} threw: ${error instanceof Error ? error.message : error}`
+  }
+}
+
+/**
+ * Returns the validator for a concrete topic: the override (e.g. of a topic
+ * subject), otherwise the first rule whose filter matches the topic.
+ */
+export function resolveValidator(
+  topic: string,
+  rules?: MQTTValidatorRules,
+  override?: MQTTValidator
+): MQTTValidator | undefined {
+  if (override || !rules) return override
+  const filter = Object.keys(rules).find(filter => mqttWildcard(topic, filter) !== null)
+  return filter ? rules[filter] : undefined
+}
@@ -0,0 +1,41 @@
+/**
+ * Returns the delay in milliseconds before the given reconnect attempt
+ * (starting at 1), or null to stop reconnecting.
+ */
+export type MQTTReconnectStrategy = (attempt: number, error?: Error) => number | null
+
+export interface MQTTReconnectOptions {
+  /** Delay before the first attempt in milliseconds. Defaults to 1000. */
+  initialDelay?: number
+  /** Upper bound of the delay in milliseconds. Defaults to 30000. */
+  maxDelay?: number
+  /** Factor the delay grows by with every attempt. Defaults to 2. */
+  factor?: number
+  /** Fraction (0 to 1) by which delays are randomly shortened. Defaults to 0.5. */
+  jitter?: number
+  /** Attempts after which the subject gives up. Unlimited by default. */
+  maxAttempts?: number
+  /** Replaces the exponential backoff, `maxAttempts` still applies */
+  strategy?: MQTTReconnectStrategy
+}
+
+/** Exponential backoff with jitter */
+export function exponentialBackoff({
+  initialDelay = 1000,
+  maxDelay = 30000,
+  factor = 2,
+  jitter = 0.5
+}: MQTTReconnectOptions = {}): MQTTReconnectStrategy {
+  return (attempt: number) => {
+    const delay = Math.min(initialDelay * Math.pow(factor, attempt - 1), maxDelay)
+    return delay - delay * jitter * Math.random()
+  }
+}
+
+/** The strategy for the `reconnect` option of the config */
+export function reconnectStrategy(options: true | MQTTReconnectOptions): MQTTReconnectStrategy {
+  const config = options === true ? {} : options
+  const { maxAttempts = Infinity, strategy = exponentialBackoff(config) } = config
+  return (attempt: number, error?: Error) =>
+    attempt > maxAttempts ? null : strategy(attempt, error)
+}
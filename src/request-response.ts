@@ -0,0 +1,78 @@
+import { Observable, from, isObservable, of } from 'rxjs'
+import { isPromise } from 'rxjs/internal/util/isPromise'
+import { MQTTQoS } from './topic-subscriptions'
+import { MQTTMessageProperties } from './message-properties'
+import { RequestError } from './errors'
+
+export interface MQTTRequestOptions {
+  /** QoS of the request. Defaults to 0. */
+  qos?: MQTTQoS
+  /**
+   * Milliseconds after which the returned Observable errors if no reply
+   * arrived. Defaults to `publishTimeout` of the config.
+   */
+  timeout?: number
+  /** Further MQTT 5 properties of the request */
+  properties?: MQTTMessageProperties
+}
+
+export interface MQTTRespondOptions {
+  /** QoS the requests are subscribed and the replies are published with */
+  qos?: MQTTQoS
+  /** Share the requests with other responders of the group */
+  shareGroup?: string
+}
+
+/**
+ * Computes the reply to a request. Returns the reply or a Promise or
+ * Observable of it, the first value of an Observable is sent.
+ */
+export type MQTTResponder<T, R> = (
+  message: T,
+  request: { topic: string; properties?: MQTTMessageProperties }
+) => R | PromiseLike<R> | Observable<R>
+
+/**
+ * Requests are wrapped in an envelope with the reply topic and correlation
+ * id if the protocol version has no properties for them (MQTT 3.1.1).
+ */
+export interface MQTTRequestEnvelope<T> {
+  correlationId: string
+  responseTopic: string
+  payload: T
+}
+
+/** Replies to enveloped requests carry the correlation id and the reply or an error */
+export interface MQTTReplyEnvelope<R> {
+  correlationId: string
+  payload?: R
+  error?: string
+}
+
+/** The user property that carries the error message of a failed MQTT 5 request */
+export const REPLY_ERROR_PROPERTY = 'error'
+
+export const randomId = () =>
+  Math.random().toString(16).substr(2, 8) + Math.random().toString(16).substr(2, 8)
+
+export const isEnvelope = (value: any): value is MQTTRequestEnvelope<any> =>
+  value instanceof Object &&
+  typeof value.correlationId === 'string' &&
+  typeof value.responseTopic === 'string'
+
+/** Wraps the result of a responder in an Observable */
+export function fromResult<R>(result: R | PromiseLike<R> | Observable<R>): Observable<R> {
+  if (isObservable(result)) return result
+  if (isPromise(result)) return from(result)
+  return of(result)
+}
+
+export const requestError = (topic: string, message: string) =>
+  new RequestError(topic, 'REQUESTFAILED', `Request on ${topic} failed: ${message}`)
+
+export const requestTimeout = (topic: string, timeout: number) =>
+  new RequestError(
+    topic,
+    'REQUESTTIMEOUT',
+    `No reply to the request on ${topic} within ${timeout}ms`
+  )
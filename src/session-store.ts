@@ -0,0 +1,179 @@
+import { Store } from 'mqtt'
+import { MQTTMessageProperties } from './message-properties'
+import { StoreError } from './errors'
+
+/**
+ * Persists the session of an MQTTSubject, i.e. messages queued while
+ * disconnected and QoS 1 and 2 packets that are not acknowledged yet, so
+ * they can be sent once the subject is started again. Values are strings
+ * keyed by strings, `entries` returns them ordered by key.
+ */
+export interface MQTTStore {
+  put(key: string, value: string): Promise<void>
+  del(key: string): Promise<void>
+  entries(prefix: string): Promise<[string, string][]>
+  close?(): Promise<void>
+}
+
+/** A queued message as it is persisted, with its payload serialized */
+export interface PersistedMessage {
+  topic: string
+  payload: Buffer
+  qos?: 0 | 1 | 2
+  retain?: boolean
+  properties?: MQTTMessageProperties
+  /** Timestamp in milliseconds, Infinity if the message does not expire */
+  expires: number
+}
+
+const byKey = (a: [string, string], b: [string, string]) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)
+
+/** Keeps the session in memory, e.g. to share it between subjects in tests */
+export class MemoryStore implements MQTTStore {
+  private _entries = new Map<string, string>()
+
+  async put(key: string, value: string) {
+    this._entries.set(key, value)
+  }
+
+  async del(key: string) {
+    this._entries.delete(key)
+  }
+
+  async entries(prefix: string) {
+    const entries: [string, string][] = []
+    this._entries.forEach((value, key) => {
+      if (key.indexOf(prefix) === 0) entries.push([key, value])
+    })
+    return entries.sort(byKey)
+  }
+}
+
+const pad = (value: number, length: number) => (Array(length).join('0') + value).slice(-length)
+
+/** Reports writes to the store that failed */
+export type StoreFailed = (error: StoreError) => void
+
+/** Chains writes so they are applied to the store in order, later writes despite failed ones */
+const chain = (
+  writes: Promise<void>,
+  key: string,
+  write: () => Promise<void>,
+  failed: StoreFailed
+) => writes.then(write).catch((cause: Error) => failed(new StoreError(key, cause)))
+
+const ignore = () => undefined
+
+/** Serializes packets to JSON, keeping Buffers intact */
+export const encodePacket = (packet: any) => JSON.stringify(packet)
+
+export const decodePacket = (value: string) =>
+  JSON.parse(value, (key, value) =>
+    value && value.type === 'Buffer' && Array.isArray(value.data) ? Buffer.from(value.data) : value
+  )
+
+/**
+ * The in-flight store of the mqtt library backed by an MQTTStore. Packets
+ * are kept in memory as usual and every change is written through to the
+ * store in order.
+ */
+export class PacketStore extends Store {
+  private _writes: Promise<void> = Promise.resolve()
+
+  constructor(
+    private _store: MQTTStore,
+    private _prefix: string,
+    private _failed: StoreFailed = ignore
+  ) {
+    super({ clean: false })
+  }
+
+  /** Loads the packets persisted by a previous session */
+  async load() {
+    const entries = await this._store.entries(this._prefix)
+    entries.forEach(([key, value]) => super.put(decodePacket(value)))
+  }
+
+  put(packet: any, cb?: Function) {
+    super.put(packet, cb)
+    const key = this._key(packet)
+    this._write(key, () => this._store.put(key, encodePacket(packet)))
+    return this
+  }
+
+  del(packet: any, cb: Function) {
+    super.del(packet, cb)
+    const key = this._key(packet)
+    this._write(key, () => this._store.del(key))
+    return this
+  }
+
+  /** Resolves once all changes are written to the store */
+  flushed(): Promise<void> {
+    return this._writes
+  }
+
+  private _key({ messageId }: { messageId: number }) {
+    return this._prefix + pad(messageId, 5)
+  }
+
+  private _write(key: string, write: () => Promise<void>) {
+    this._writes = chain(this._writes, key, write, this._failed)
+  }
+}
+
+const QUEUE_PREFIX = 'queue/'
+
+/** Persists the messages queued while disconnected in the order they were queued */
+export class QueueStore {
+  private _writes: Promise<void> = Promise.resolve()
+  private _sequence = 0
+
+  constructor(private _store: MQTTStore, private _failed: StoreFailed = ignore) {}
+
+  /** Loads the messages queued by a previous session along with their keys */
+  async load(): Promise<[string, PersistedMessage][]> {
+    const entries = await this._store.entries(QUEUE_PREFIX)
+    return entries.map(([key, value]): [string, PersistedMessage] => {
+      const { topic, payload, qos, retain, properties, expires } = decodePacket(value)
+      return [
+        key,
+        {
+          topic,
+          payload: Buffer.from(payload, 'base64'),
+          qos,
+          retain,
+          properties,
+          expires: expires === null ? Infinity : expires
+        }
+      ]
+    })
+  }
+
+  /** Persists the message and returns its key */
+  add(
+    { topic, payload, qos, retain, properties, expires }: PersistedMessage,
+    now = Date.now()
+  ): string {
+    const key = QUEUE_PREFIX + pad(now, 15) + pad(this._sequence++ % 1e6, 6)
+    const value = JSON.stringify({
+      topic,
+      payload: payload.toString('base64'),
+      qos,
+      retain,
+      properties,
+      expires: expires === Infinity ? null : expires
+    })
+    this._writes = chain(this._writes, key, () => this._store.put(key, value), this._failed)
+    return key
+  }
+
+  remove(key: string) {
+    this._writes = chain(this._writes, key, () => this._store.del(key), this._failed)
+  }
+
+  /** Resolves once all changes are written to the store */
+  flushed(): Promise<void> {
+    return this._writes
+  }
+}
@@ -0,0 +1,91 @@
+import { Observable, OperatorFunction, SchedulerLike, Subscription, asyncScheduler } from 'rxjs'
+import mqttWildcard from './mqtt-wildcard'
+
+export interface MQTTSnapshotOptions {
+  /**
+   * Milliseconds after which the message of a topic is dropped from the
+   * snapshot if no newer message arrived. Messages are kept by default.
+   */
+  maxAge?: number
+}
+
+/** The last message on a topic of the snapshot */
+export interface MQTTSnapshotEntry<T> {
+  topic: string
+  message: T
+  /** The levels of the topic matched by the wildcards of the filter */
+  captures: string[]
+  /** When the message arrived, in milliseconds of the scheduler */
+  received: number
+}
+
+/** The last message per concrete topic, keyed by topic */
+export type MQTTSnapshot<T> = ReadonlyMap<string, MQTTSnapshotEntry<T>>
+
+interface Inbound<T> {
+  topic: string
+  message: T
+  packet?: { payload: Buffer | string }
+}
+
+/**
+ * Collects the last message per topic matching the filter and emits a new
+ * Map on every change, starting with an empty one. An empty payload, which
+ * deletes a retained message, removes the topic.
+ */
+export function snapshot<T>(
+  filter: string,
+  { maxAge }: MQTTSnapshotOptions = {},
+  scheduler: SchedulerLike = asyncScheduler
+): OperatorFunction<Inbound<T>, MQTTSnapshot<T>> {
+  return source =>
+    new Observable<MQTTSnapshot<T>>(subscriber => {
+      // Ordered by arrival, so the oldest entries are evicted first
+      const entries = new Map<string, MQTTSnapshotEntry<T>>()
+      const emit = () => subscriber.next(new Map(entries))
+      let eviction: Subscription | undefined
+
+      const evict = () => {
+        eviction = undefined
+        const now = scheduler.now()
+        let evicted = false
+        entries.forEach((entry, topic) => {
+          if (now - entry.received >= maxAge!) {
+            entries.delete(topic)
+            evicted = true
+          }
+        })
+        if (evicted) emit()
+        scheduleEviction()
+      }
+
+      const scheduleEviction = () => {
+        if (maxAge === undefined || eviction || !entries.size) return
+        const oldest = entries.values().next().value as MQTTSnapshotEntry<T>
+        const delay = Math.max(oldest.received + maxAge - scheduler.now(), 0)
+        eviction = scheduler.schedule(evict, delay)
+      }
+
+      emit()
+      const subscription = source.subscribe({
+        next: ({ topic, message, packet }) => {
+          const captures = mqttWildcard(topic, filter)
+          if (captures === null) return
+          const existed = entries.delete(topic)
+          if (packet && !packet.payload.length) {
+            if (existed) emit()
+            return
+          }
+          entries.set(topic, { topic, message, captures, received: scheduler.now() })
+          emit()
+          scheduleEviction()
+        },
+        error: error => subscriber.error(error),
+        complete: () => subscriber.complete()
+      })
+      return () => {
+        subscription.unsubscribe()
+        if (eviction) eviction.unsubscribe()
+      }
+    })
+}
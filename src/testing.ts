@@ -0,0 +1,14 @@
+/**
+ * Test helpers, imported from `musquette/testing`: an MQTT broker that runs
+ * in memory with assertions on the messages published to it, and a subject
+ * for marble tests.
+ */
+export {
+  default as MemoryBroker,
+  MemoryBrokerMessage,
+  MemoryBrokerSubscription,
+  MemoryBrokerOptions,
+  MemoryBrokerPublishOptions,
+  MemoryBrokerExpectOptions
+} from './memory-broker'
+export { default as MarbleSubject, MarbleSubjectConfig } from './marble-subject'
@@ -0,0 +1,96 @@
+/**
+ * Payload types keyed by topic filter, e.g.
+ * `{ 'sensors/+/temperature': number; 'devices/+/cmd': Command }`. Passed as
+ * the type parameter of an MQTTSubject, topics and payloads are checked
+ * against the filters at compile time. Named wildcards like `+deviceId` may be
+ * used in the filters.
+ */
+export type MQTTTopicMap = { [filter: string]: any }
+
+type FilterKey = `${string}/${string}` | `${string}+${string}` | `${string}#${string}`
+
+/**
+ * Whether the type is a topic map rather than a payload type, i.e. whether
+ * any of its keys looks like a topic filter. `any` is not a topic map.
+ */
+export type IsTopicMap<T> = 0 extends 1 & T
+  ? false
+  : [T] extends [object]
+  ? [Extract<keyof T, FilterKey>] extends [never]
+    ? false
+    : true
+  : false
+
+type Level<L extends string> = L extends `+${string}` | `#${string}` ? string : L
+
+/**
+ * The topics matched by a filter, e.g. `sensors/${string}/temperature` for
+ * `sensors/+/temperature`
+ */
+export type TopicName<F extends string> = F extends `${infer L}/${infer R}`
+  ? `${Level<L>}/${TopicName<R>}`
+  : Level<F>
+
+type LevelMatches<F extends string, L extends string> = F extends `+${string}`
+  ? true
+  : F extends L
+  ? true
+  : false
+
+/** Whether the filter matches the topic, wildcards in the topic are matched literally */
+export type TopicMatches<F extends string, T extends string> = F extends `#${string}`
+  ? true
+  : F extends `${infer FL}/${infer FR}`
+  ? T extends `${infer TL}/${infer TR}`
+    ? LevelMatches<FL, TL> extends true
+      ? TopicMatches<FR, TR>
+      : false
+    : FR extends `#${string}`
+    ? LevelMatches<FL, T>
+    : false
+  : T extends `${string}/${string}`
+  ? false
+  : LevelMatches<F, T>
+
+type MatchingFilters<M, T extends string> = {
+  [F in keyof M & string]: TopicMatches<F, T> extends true
+    ? F
+    : TopicMatches<T, F> extends true
+    ? F
+    : never
+}[keyof M & string]
+
+/** The payload type of any topic of the subject */
+export type MQTTPayload<T> = IsTopicMap<T> extends true ? T[keyof T] : T
+
+/**
+ * The payload type of a topic or filter: the type of the filter itself if it
+ * is a key of the map, otherwise the types of all filters that match it or
+ * that it matches. Topics that are not part of the map have no valid payload.
+ */
+export type MQTTTopicPayload<T, Topic extends string> = IsTopicMap<T> extends true
+  ? string extends Topic
+    ? T[keyof T]
+    : Topic extends keyof T
+    ? T[Topic]
+    : T[MatchingFilters<T, Topic>]
+  : T
+
+type ParamName<L extends string> = L extends `+${infer N}`
+  ? N extends ''
+    ? never
+    : N
+  : L extends `#${infer N}`
+  ? N extends ''
+    ? never
+    : N
+  : never
+
+type ParamNames<F extends string> = F extends `${infer L}/${infer R}`
+  ? ParamName<L> | ParamNames<R>
+  : ParamName<F>
+
+/** The params of messages received through a filter with named wildcards */
+export type TopicParams<F extends string> = string extends F
+  ? { [name: string]: string }
+  : { [N in ParamNames<F>]: string }
@@ -0,0 +1,52 @@
+import mqttWildcard from './mqtt-wildcard'
+
+/** The topic levels captured by the named wildcards of a topic filter */
+export interface MQTTTopicParams {
+  [name: string]: string
+}
+
+/**
+ * A topic filter with named wildcards, e.g. `sites/+site/devices/+deviceId/#rest`,
+ * split into the MQTT filter `sites/+/devices/+/#` and the names of its
+ * wildcards in order. Unnamed wildcards have no name.
+ */
+export interface TopicPattern {
+  filter: string
+  names: (string | undefined)[]
+}
+
+export function parseTopicPattern(pattern: string): TopicPattern {
+  const names: (string | undefined)[] = []
+  const filter = pattern
+    .split('/')
+    .map(level => {
+      const wildcard = level[0]
+      if (wildcard !== '+' && wildcard !== '#') {
+        return level
+      }
+      names.push(level.length > 1 ? level.slice(1) : undefined)
+      return wildcard
+    })
+    .join('/')
+  return { filter, names }
+}
+
+/** Whether the pattern names any of its wildcards */
+export const hasParams = ({ names }: TopicPattern) => names.some(name => name !== undefined)
+
+/**
+ * The named levels of the topic, null if it does not match the pattern. A `#`
+ * matching the parent level, e.g. `a/#rest` matching `a`, captures `''`.
+ */
+export function topicParams(
+  topic: string,
+  { filter, names }: TopicPattern
+): MQTTTopicParams | null {
+  const captures = mqttWildcard(topic, filter)
+  if (!captures) return null
+  const params: MQTTTopicParams = {}
+  names.forEach((name, index) => {
+    if (name !== undefined) params[name] = index < captures.length ? captures[index] : ''
+  })
+  return params
+}
@@ -0,0 +1,49 @@
+import { Observable, Subject, Subscriber } from 'rxjs'
+import TopicTrie from './topic-trie'
+
+/**
+ * A Subject that also dispatches each message to the subscribers of the
+ * topic filters matching its topic, looked up in a shared TopicTrie instead
+ * of filtering every message once per subscriber.
+ */
+export default class TopicRouter<T extends { topic: string }> extends Subject<T> {
+  private _routes = new TopicTrie<Subscriber<T>>()
+
+  next(value: T) {
+    super.next(value)
+    if (this.isStopped) return
+    this._routes.match(value.topic).forEach(subscriber => subscriber.next(value))
+  }
+
+  error(error: any) {
+    super.error(error)
+    this._terminate().forEach(subscriber => subscriber.error(error))
+  }
+
+  complete() {
+    super.complete()
+    this._terminate().forEach(subscriber => subscriber.complete())
+  }
+
+  /** Emits the messages on topics matching the filter */
+  route(topicFilter: string): Observable<T> {
+    return new Observable<T>(subscriber => {
+      if (this.hasError) {
+        subscriber.error(this.thrownError)
+      } else if (this.isStopped) {
+        subscriber.complete()
+      } else {
+        this._routes.add(topicFilter, subscriber)
+      }
+      return () => {
+        this._routes.remove(topicFilter, subscriber)
+      }
+    })
+  }
+
+  private _terminate() {
+    const subscribers = this._routes.values()
+    this._routes.clear()
+    return subscribers
+  }
+}
@@ -0,0 +1,319 @@
+import mqttWildcard, {
+  filterCovers,
+  filtersOverlap,
+  isSharedFilter,
+  parseSharedFilter
+} from './mqtt-wildcard'
+import TopicTrie from './topic-trie'
+
+export type MQTTQoS = 0 | 1 | 2
+
+export interface MQTTSubscribeOptions {
+  /** The maximum QoS messages on the topic are delivered with. Defaults to 0. */
+  qos?: MQTTQoS
+  /** Do not receive messages published by this client (MQTT 5) */
+  noLocal?: boolean
+  /** Keep the retain flag messages were published with (MQTT 5) */
+  retainAsPublished?: boolean
+  /**
+   * Whether retained messages are sent on subscribe (MQTT 5): 0 always,
+   * 1 only for new subscriptions, 2 never
+   */
+  retainHandling?: 0 | 1 | 2
+  /**
+   * Set on the messages the subscription delivers, in their
+   * `subscriptionIdentifiers` property (MQTT 5)
+   */
+  subscriptionIdentifier?: number
+}
+
+export interface TopicSubscriptionChanges {
+  subscribe: { [filter: string]: MQTTSubscribeOptions }
+  unsubscribe: string[]
+}
+
+const sameFlags = (a: MQTTSubscribeOptions, b: MQTTSubscribeOptions) =>
+  !!a.noLocal === !!b.noLocal &&
+  !!a.retainAsPublished === !!b.retainAsPublished &&
+  (a.retainHandling || 0) === (b.retainHandling || 0) &&
+  a.subscriptionIdentifier === b.subscriptionIdentifier
+
+const sameOptions = (a: MQTTSubscribeOptions, b: MQTTSubscribeOptions) =>
+  (a.qos || 0) === (b.qos || 0) && sameFlags(a, b)
+
+const unique = (filters: string[]) => Array.from(new Set(filters))
+
+const merge = (observers: MQTTSubscribeOptions[]): MQTTSubscribeOptions =>
+  observers.reduce(
+    (merged: MQTTSubscribeOptions, options) => ({
+      qos: Math.max(merged.qos || 0, options.qos || 0) as MQTTQoS,
+      noLocal: merged.noLocal && !!options.noLocal,
+      retainAsPublished: merged.retainAsPublished || !!options.retainAsPublished,
+      retainHandling: Math.min(merged.retainHandling as number, options.retainHandling || 0) as
+        | 0
+        | 1
+        | 2,
+      subscriptionIdentifier:
+        merged.subscriptionIdentifier === undefined
+          ? options.subscriptionIdentifier
+          : merged.subscriptionIdentifier
+    }),
+    { qos: 0, noLocal: true, retainAsPublished: false, retainHandling: 2 }
+  )
+
+/**
+ * Reference counts the topic filters observed through topic subjects and
+ * tracks which of them are subscribed at the broker. Filters that are covered
+ * by another observed filter with compatible options are not subscribed
+ * separately, unless the broker rejected the covering filter. Shared
+ * subscriptions neither cover nor are covered by other filters as the broker
+ * delivers their messages to one member of the group only.
+ *
+ * The covering relation is updated as filters are added and removed, looking
+ * up the filters it may change in a trie, and `sync()` only looks at the
+ * filters that changed since the last sync.
+ */
+export default class TopicSubscriptions {
+  private _observers = new Map<string, MQTTSubscribeOptions[]>()
+  private _subscribed = new Map<string, MQTTSubscribeOptions>()
+
+  /** The merged options of every observed filter */
+  private _options = new Map<string, MQTTSubscribeOptions>()
+
+  /** The observed filters that are not shared, by filter level */
+  private _index = new TopicTrie<string>()
+
+  /** The observed filters covering each observed filter */
+  private _coverers = new Map<string, Set<string>>()
+
+  /** The observed filters each observed filter covers */
+  private _covered = new Map<string, Set<string>>()
+
+  /** Filters whose options or coverers changed since the last sync */
+  private _changed = new Set<string>()
+
+  /** Filters the broker rejected, which cover no other filters */
+  private _rejected = new Set<string>()
+
+  /** The observed shared filters */
+  private _shared = new Set<string>()
+
+  /** Adds an observer of the filter */
+  add(filter: string, options: MQTTSubscribeOptions = {}) {
+    const observers = this._observers.get(filter) || []
+    this._observers.set(filter, [...observers, options])
+    this._update(filter)
+  }
+
+  /** Removes an observer of the filter that was added with the (same) options */
+  remove(filter: string, options: MQTTSubscribeOptions = {}) {
+    const observers = (this._observers.get(filter) || []).slice()
+    let index = observers.indexOf(options)
+    if (index === -1) {
+      index = observers.findIndex(other => sameOptions(other, options))
+    }
+    if (index === -1) return
+    observers.splice(index, 1)
+    if (observers.length) {
+      this._observers.set(filter, observers)
+    } else {
+      this._observers.delete(filter)
+    }
+    this._update(filter)
+  }
+
+  /** Whether an observed filter matches the topic */
+  matches(topic: string): boolean {
+    if (this._index.match(topic).length) {
+      return true
+    }
+    return Array.from(this._shared).some(
+      filter => mqttWildcard(topic, parseSharedFilter(filter).filter) !== null
+    )
+  }
+
+  /** Filters that currently have observers */
+  filters(): string[] {
+    return Array.from(this._observers.keys())
+  }
+
+  /**
+   * The options of all observers of a filter merged into one subscription:
+   * the highest QoS, no local only if every observer asks for it, retain as
+   * published if any observer asks for it, the most permissive retain
+   * handling and the subscription identifier of the first observer with one.
+   */
+  options(filter: string): MQTTSubscribeOptions {
+    return this._options.get(filter) || merge([])
+  }
+
+  /** Minimal set of filters that need to be subscribed at the broker */
+  effective(): string[] {
+    return this.filters().filter(filter => this._isEffective(filter))
+  }
+
+  /**
+   * An observed filter matching topics the filter matches too, if either of
+   * them is shared. The broker delivers their messages separately, but both
+   * would be routed to the observers of either filter.
+   */
+  conflicting(filter: string): string | undefined {
+    const { filter: plain } = parseSharedFilter(filter)
+    const others = isSharedFilter(filter) ? this.filters() : Array.from(this._shared)
+    return others.find(
+      other => other !== filter && filtersOverlap(plain, parseSharedFilter(other).filter)
+    )
+  }
+
+  /** The effective filter messages for the filter are received through */
+  serving(filter: string): string | undefined {
+    if (this._isEffective(filter)) {
+      return filter
+    }
+    const coverers = this._coverers.get(filter) || this._coverersOf(filter)
+    return Array.from(coverers).find(other => this._isEffective(other))
+  }
+
+  /** The observed filters the effective filter serves, including itself */
+  served(filter: string): string[] {
+    const served = this._isEffective(filter) ? [filter] : []
+    const covered = Array.from(this._covered.get(filter) || [])
+    return served.concat(covered.filter(other => this.serving(other) === filter))
+  }
+
+  /**
+   * Records that the broker rejected the filter. The filters it covered are
+   * subscribed on their own by the next sync.
+   */
+  reject(filter: string) {
+    const covered = this._covered.get(filter)
+    if (!covered) return
+    this._rejected.add(filter)
+    Array.from(covered).forEach(narrow => this._relate(filter, narrow))
+  }
+
+  /** Forgets the subscription of a filter that failed, the next sync subscribes it again */
+  failed(filter: string) {
+    if (!this._subscribed.delete(filter)) return
+    if (this._observers.has(filter)) {
+      this._changed.add(filter)
+    }
+  }
+
+  /**
+   * Returns the changes needed to bring the broker in line with the observed
+   * filters and assumes they are applied.
+   */
+  sync(): TopicSubscriptionChanges {
+    const subscribe: { [filter: string]: MQTTSubscribeOptions } = {}
+    const unsubscribe: string[] = []
+    this._changed.forEach(filter => {
+      const current = this._subscribed.get(filter)
+      if (this._isEffective(filter)) {
+        const options = this.options(filter)
+        if (!current || !sameOptions(current, options)) {
+          subscribe[filter] = options
+        }
+        this._subscribed.set(filter, options)
+      } else if (current) {
+        unsubscribe.push(filter)
+        this._subscribed.delete(filter)
+      }
+    })
+    this._changed.clear()
+    return { subscribe, unsubscribe }
+  }
+
+  /** Forgets the broker state, e.g. after a new connection is established */
+  reset() {
+    this._subscribed.clear()
+    // Rejected filters are tried again and cover their filters meanwhile
+    const rejected = Array.from(this._rejected)
+    this._rejected.clear()
+    rejected.forEach(wide =>
+      unique(this._index.within(wide)).forEach(narrow => this._relate(wide, narrow))
+    )
+    this._observers.forEach((observers, filter) => this._changed.add(filter))
+  }
+
+  private _isEffective(filter: string) {
+    const coverers = this._coverers.get(filter)
+    return !!coverers && !coverers.size
+  }
+
+  /** Relates the filter to the filters it covers or is covered by after its observers changed */
+  private _update(filter: string) {
+    this._changed.add(filter)
+    const observers = this._observers.get(filter)
+    if (!observers) {
+      this._coverers.get(filter)!.forEach(wide => this._covered.get(wide)!.delete(filter))
+      this._covered.get(filter)!.forEach(narrow => {
+        this._coverers.get(narrow)!.delete(filter)
+        this._changed.add(narrow)
+      })
+      this._options.delete(filter)
+      this._rejected.delete(filter)
+      this._shared.delete(filter)
+      this._coverers.delete(filter)
+      this._covered.delete(filter)
+      this._index.remove(filter, filter)
+      return
+    }
+
+    this._options.set(filter, merge(observers))
+    if (!this._coverers.has(filter)) {
+      this._coverers.set(filter, new Set())
+      this._covered.set(filter, new Set())
+      if (isSharedFilter(filter)) {
+        this._shared.add(filter)
+        return
+      }
+      this._index.add(filter, filter)
+    } else if (isSharedFilter(filter)) {
+      return
+    }
+    // Covering depends on the options too, so all candidates are related again
+    unique(this._index.match(filter)).forEach(wide => this._relate(wide, filter))
+    unique(this._index.within(filter)).forEach(narrow => this._relate(filter, narrow))
+  }
+
+  private _relate(wide: string, narrow: string) {
+    if (wide === narrow) return
+    const coverers = this._coverers.get(narrow)!
+    const covered = this._covered.get(wide)!
+    const covers = this._covers(wide, narrow)
+    if (covers === coverers.has(wide)) return
+    if (covers) {
+      coverers.add(wide)
+      covered.add(narrow)
+    } else {
+      coverers.delete(wide)
+      covered.delete(narrow)
+    }
+    this._changed.add(narrow)
+  }
+
+  /** The observed filters covering a filter that is not observed */
+  private _coverersOf(filter: string): Set<string> {
+    if (isSharedFilter(filter)) return new Set()
+    const coverers = unique(this._index.match(filter))
+    return new Set(coverers.filter(wide => wide !== filter && this._covers(wide, filter)))
+  }
+
+  private _covers(wide: string, narrow: string) {
+    if (wide === narrow || isSharedFilter(wide) || isSharedFilter(narrow)) {
+      return false
+    }
+    if (this._rejected.has(wide)) {
+      return false
+    }
+    if (!filterCovers(wide, narrow)) {
+      return false
+    }
+    const wideOptions = this.options(wide)
+    const narrowOptions = this.options(narrow)
+    return (
+      (wideOptions.qos || 0) >= (narrowOptions.qos || 0) && sameFlags(wideOptions, narrowOptions)
+    )
+  }
+}
@@ -0,0 +1,142 @@
+interface TrieNode<V> {
+  children: Map<string, TrieNode<V>>
+  values: V[]
+}
+
+const node = <V>(): TrieNode<V> => ({ children: new Map(), values: [] })
+
+/**
+ * Values keyed by topic filter, organized by filter level so the values of
+ * all filters matching a topic are found in time proportional to the depth of
+ * the topic rather than the number of filters.
+ */
+export default class TopicTrie<V> {
+  private _root: TrieNode<V> = node()
+
+  private _size = 0
+
+  /** Number of values in the trie */
+  get size() {
+    return this._size
+  }
+
+  add(filter: string, value: V) {
+    let current = this._root
+    for (const level of filter.split('/')) {
+      let child = current.children.get(level)
+      if (!child) {
+        child = node()
+        current.children.set(level, child)
+      }
+      current = child
+    }
+    current.values.push(value)
+    this._size++
+  }
+
+  /** Removes the value added for the filter, returns whether it was found */
+  remove(filter: string, value: V): boolean {
+    const path: TrieNode<V>[] = [this._root]
+    const levels = filter.split('/')
+    for (const level of levels) {
+      const child = path[path.length - 1].children.get(level)
+      if (!child) return false
+      path.push(child)
+    }
+
+    const values = path[path.length - 1].values
+    const index = values.indexOf(value)
+    if (index === -1) return false
+    values.splice(index, 1)
+    this._size--
+
+    // Prune nodes that neither hold values nor lead to any
+    for (let i = levels.length; i > 0; i--) {
+      const current = path[i]
+      if (current.values.length || current.children.size) break
+      path[i - 1].children.delete(levels[i - 1])
+    }
+    return true
+  }
+
+  /**
+   * The values of all filters matching the topic. Wildcards at the first
+   * level do not match topics starting with `$`.
+   */
+  match(topic: string): V[] {
+    const levels = topic.split('/')
+    const matches: V[] = []
+    const visit = (current: TrieNode<V>, depth: number) => {
+      const wildcards = depth > 0 || levels[0][0] !== '$'
+      const multi = wildcards && current.children.get('#')
+      if (multi) {
+        // `a/#` also matches `a`
+        matches.push(...multi.values)
+      }
+      if (depth === levels.length) {
+        matches.push(...current.values)
+        return
+      }
+      const single = wildcards && current.children.get('+')
+      if (single) {
+        visit(single, depth + 1)
+      }
+      const exact = current.children.get(levels[depth])
+      if (exact) {
+        visit(exact, depth + 1)
+      }
+    }
+    visit(this._root, 0)
+    return matches
+  }
+
+  /**
+   * The values of all filters in the trie the filter may cover, i.e. whose
+   * levels are matched by the levels of the filter. Wildcards at the first
+   * level are not special cased for `$` topics.
+   */
+  within(filter: string): V[] {
+    const levels = filter.split('/')
+    const matches: V[] = []
+    const collect = (current: TrieNode<V>) => {
+      matches.push(...current.values)
+      current.children.forEach(collect)
+    }
+    const visit = (current: TrieNode<V>, depth: number) => {
+      if (depth === levels.length) {
+        matches.push(...current.values)
+        return
+      }
+      const level = levels[depth]
+      if (level === '#') {
+        // `a/#` also covers `a`
+        collect(current)
+      } else if (level === '+') {
+        current.children.forEach((child, key) => key !== '#' && visit(child, depth + 1))
+      } else {
+        const exact = current.children.get(level)
+        if (exact) {
+          visit(exact, depth + 1)
+        }
+      }
+    }
+    visit(this._root, 0)
+    return matches
+  }
+
+  /** All values in the trie */
+  values(): V[] {
+    const values: V[] = []
+    const collect = (current: TrieNode<V>) => {
+      values.push(...current.values)
+      current.children.forEach(collect)
+    }
+    collect(this._root)
+    return values
+  }
+
+  clear() {
+    this._root = node()
+    this._size = 0
+  }
+}
@@ -0,0 +1,61 @@
+import { InvalidTopicError } from './errors'
+import { isSharedFilter, parseSharedFilter } from './mqtt-wildcard'
+
+/** Topic names and filters are limited to 65535 bytes of UTF-8 */
+const MAX_LENGTH = 65535
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(^|[^\uD800-\uDBFF])[\uDC00-\uDFFF]/
+
+function validateString(topic: string, kind: string) {
+  if (!topic) {
+    throw new InvalidTopicError(topic, `${kind} must not be empty`)
+  }
+  if (topic.indexOf('\u0000') !== -1) {
+    throw new InvalidTopicError(topic, `${kind} must not contain the null character`)
+  }
+  if (LONE_SURROGATE.test(topic)) {
+    throw new InvalidTopicError(topic, `${kind} must be valid UTF-8`)
+  }
+  if (Buffer.byteLength(topic, 'utf8') > MAX_LENGTH) {
+    throw new InvalidTopicError(topic, `${kind} must not be longer than ${MAX_LENGTH} bytes`)
+  }
+}
+
+/** Throws an InvalidTopicError unless the topic can be published on */
+export function validateTopic(topic: string) {
+  validateString(topic, 'Topic')
+  if (topic.indexOf('#') !== -1 || topic.indexOf('+') !== -1) {
+    throw new InvalidTopicError(topic, 'Cannot publish on a topic with wildcards')
+  }
+}
+
+/**
+ * Throws an InvalidTopicError unless the filter can be subscribed to: `#`
+ * must be the last level, `+` a whole level and shared subscriptions need a
+ * share group without wildcards.
+ */
+export function validateFilter(topicFilter: string) {
+  validateString(topicFilter, 'Topic filter')
+
+  let levels = topicFilter
+  if (isSharedFilter(topicFilter)) {
+    const { shareGroup, filter } = parseSharedFilter(topicFilter)
+    if (!shareGroup || /[+#]/.test(shareGroup)) {
+      throw new InvalidTopicError(topicFilter, 'Share group must not be empty or contain wildcards')
+    }
+    if (!filter.length) {
+      throw new InvalidTopicError(topicFilter, 'Shared topic filter must not be empty')
+    }
+    levels = filter
+  }
+
+  const split = levels.split('/')
+  split.forEach((level, index) => {
+    if (level.indexOf('#') !== -1 && (level !== '#' || index !== split.length - 1)) {
+      throw new InvalidTopicError(topicFilter, '# must be the last level of a topic filter')
+    }
+    if (level.indexOf('+') !== -1 && level !== '+') {
+      throw new InvalidTopicError(topicFilter, '+ must occupy a whole level of a topic filter')
+    }
+  })
+}
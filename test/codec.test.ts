@@ -0,0 +1,52 @@
+import { jsonCodec, stringCodec, rawCodec, resolveCodec } from '../src/codec'
+
+describe('codecs', () => {
+  it('json codec round trips values', () => {
+    const { serializer, deserializer } = jsonCodec
+    expect(deserializer!(serializer!({ a: 1 }))).toEqual({ a: 1 })
+  })
+  it('json codec maps undefined to the empty payload', () => {
+    const { serializer, deserializer } = jsonCodec
+    expect(serializer!(undefined).length).toBe(0)
+    expect(deserializer!(Buffer.alloc(0))).toBe(undefined)
+  })
+  it('string codec round trips strings', () => {
+    const { serializer, deserializer } = stringCodec
+    expect(serializer!('online').toString()).toBe('online')
+    expect(deserializer!(Buffer.from('online'))).toBe('online')
+  })
+  it('raw codec passes buffers through', () => {
+    const buffer = Buffer.from([0, 1, 2])
+    expect(rawCodec.serializer!(buffer)).toBe(buffer)
+    expect(rawCodec.deserializer!(buffer)).toBe(buffer)
+  })
+})
+
+describe('resolveCodec', () => {
+  const rules = {
+    'firmware/#': rawCodec,
+    'status/+': stringCodec
+  }
+
+  it('falls back if no rule matches', () => {
+    expect(resolveCodec('telemetry/1', jsonCodec, rules)).toEqual(jsonCodec)
+  })
+  it('uses the first matching rule', () => {
+    expect(resolveCodec('firmware/1/chunk', jsonCodec, rules)).toEqual(rawCodec)
+    expect(resolveCodec('status/1', jsonCodec, rules)).toEqual(stringCodec)
+  })
+  it('prefers the override over rules', () => {
+    expect(resolveCodec('status/1', jsonCodec, rules, rawCodec)).toEqual(rawCodec)
+  })
+  it('fills in missing functions from the next codec', () => {
+    const deserializer = (message: Buffer) => message.length
+    const codec = resolveCodec('status/1', jsonCodec, rules, { deserializer })
+    expect(codec.deserializer).toBe(deserializer)
+    expect(codec.serializer).toBe(stringCodec.serializer)
+  })
+  it('throws if no serializer is available', () => {
+    expect(() => resolveCodec('topic', { deserializer: jsonCodec.deserializer })).toThrow(
+      'Serializer is undefined'
+    )
+  })
+})
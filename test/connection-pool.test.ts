@@ -0,0 +1,48 @@
+import { MqttClient } from 'mqtt'
+import ConnectionPool, { poolable } from '../src/connection-pool'
+
+const client = () => (({ end: jest.fn() } as unknown) as MqttClient)
+
+describe('ConnectionPool', () => {
+  it('shares the client of a key', () => {
+    const pool = new ConnectionPool()
+    const create = jest.fn(client)
+    const first = pool.acquire('mqtt://localhost', create)
+    expect(pool.acquire('mqtt://localhost', create)).toBe(first)
+    expect(pool.acquire('mqtt://example.com', create)).not.toBe(first)
+    expect(create).toHaveBeenCalledTimes(2)
+    expect(pool.size).toBe(2)
+  })
+
+  it('ends the client when its last user releases it', () => {
+    const pool = new ConnectionPool()
+    const pooled = pool.acquire('mqtt://localhost', client)
+    pool.acquire('mqtt://localhost', client)
+    pool.release('mqtt://localhost')
+    expect(pooled.end).not.toHaveBeenCalled()
+    pool.release('mqtt://localhost')
+    expect(pooled.end).toHaveBeenCalledTimes(1)
+    expect(pool.size).toBe(0)
+  })
+
+  it('creates a new client once the previous one is ended', () => {
+    const pool = new ConnectionPool()
+    const ended = pool.acquire('mqtt://localhost', client)
+    pool.release('mqtt://localhost')
+    pool.release('mqtt://localhost')
+    expect(pool.acquire('mqtt://localhost', client)).not.toBe(ended)
+    expect(ended.end).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('poolable', () => {
+  it('accepts options JSON represents', () => {
+    expect(poolable({ clientId: 'a', will: { topic: 'b', payload: Buffer.from('c') } })).toBe(true)
+    expect(poolable({ servers: [{ host: 'localhost', port: 1883 }] })).toBe(true)
+  })
+
+  it('rejects functions and other objects', () => {
+    expect(poolable({ transformWsUrl: (url: string) => url })).toBe(false)
+    expect(poolable({ wsOptions: { agent: new (class Agent {})() } })).toBe(false)
+  })
+})
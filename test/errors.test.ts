@@ -0,0 +1,36 @@
+import {
+  MQTTError,
+  AuthenticationError,
+  ConnectionRefusedError,
+  PublishError,
+  SubscriptionRejectedError
+} from '../src/errors'
+
+describe('errors', () => {
+  it('prefixes messages with the code', () => {
+    const error = new PublishError('a/b', 'QUEUEFULL', 'Cannot queue message on a/b')
+    expect(error.code).toBe('QUEUEFULL')
+    expect(error.message).toBe('QUEUEFULL: Cannot queue message on a/b')
+    expect(error.name).toBe('PublishError')
+  })
+  it('keeps the error a publish failed with', () => {
+    const cause = new Error('Connection closed')
+    const error = new PublishError('a/b', 'PUBLISHFAILED', cause.message, cause)
+    expect(error.cause).toBe(cause)
+    expect(error.message).toBe('PUBLISHFAILED: Connection closed')
+  })
+  it('keeps the prototype chain', () => {
+    const error = new AuthenticationError(0x86, 'Bad User Name or Password')
+    expect(error).toBeInstanceOf(AuthenticationError)
+    expect(error).toBeInstanceOf(ConnectionRefusedError)
+    expect(error).toBeInstanceOf(MQTTError)
+    expect(error).toBeInstanceOf(Error)
+    expect(error.code).toBe('AUTHFAILED')
+    expect(error.reasonCode).toBe(0x86)
+  })
+  it('formats reason codes as hex', () => {
+    expect(new SubscriptionRejectedError('forbidden', 0x87).message).toBe(
+      'SUBSCRIBEREJECTED: Broker rejected subscription to forbidden with reason code 0x87'
+    )
+  })
+})
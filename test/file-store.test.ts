@@ -0,0 +1,54 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import FileStore from '../src/file-store'
+
+describe('FileStore', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'musquette-'))
+  })
+
+  afterEach(() => {
+    fs.readdirSync(directory).forEach(file => fs.unlinkSync(path.join(directory, file)))
+    fs.rmdirSync(directory)
+  })
+
+  it('persists entries across instances', async () => {
+    await new FileStore(directory).put('queue/1', 'a')
+    await new FileStore(directory).put('outgoing/1', 'b')
+    expect(await new FileStore(directory).entries('queue/')).toEqual([['queue/1', 'a']])
+  })
+
+  it('orders entries by key and ignores missing entries on delete', async () => {
+    const store = new FileStore(directory)
+    await store.put('queue/2', 'b')
+    await store.put('queue/1', 'a')
+    await store.del('queue/3')
+    expect(await store.entries('queue/')).toEqual([
+      ['queue/1', 'a'],
+      ['queue/2', 'b']
+    ])
+  })
+
+  it('creates the directory', async () => {
+    const store = new FileStore(path.join(directory, 'session'))
+    await store.put('queue/1', 'a')
+    expect(await store.entries('')).toEqual([['queue/1', 'a']])
+    fs.unlinkSync(path.join(directory, 'session', 'queue%2F1'))
+    fs.rmdirSync(path.join(directory, 'session'))
+  })
+
+  it('syncs entries and the directory to disk', async () => {
+    const store = new FileStore(directory)
+    const fsync = jest.spyOn(fs, 'fsync')
+    await store.put('queue/1', 'a')
+    expect(fsync).toHaveBeenCalledTimes(2)
+    await store.del('queue/1')
+    expect(fsync).toHaveBeenCalledTimes(3)
+    await store.del('queue/1')
+    expect(fsync).toHaveBeenCalledTimes(3)
+    fsync.mockRestore()
+  })
+})
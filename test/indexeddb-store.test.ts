@@ -0,0 +1,51 @@
+import 'fake-indexeddb/auto'
+import IndexedDBStore from '../src/indexeddb-store'
+
+describe('IndexedDBStore', () => {
+  let databases = 0
+  let name: string
+
+  beforeEach(() => {
+    name = `musquette-${++databases}`
+  })
+
+  it('persists entries across instances', async () => {
+    const first = new IndexedDBStore(name)
+    await first.put('queue/1', 'a')
+    await first.put('outgoing/1', 'b')
+    await first.close()
+    const second = new IndexedDBStore(name)
+    expect(await second.entries('queue/')).toEqual([['queue/1', 'a']])
+    await second.close()
+  })
+
+  it('orders entries by key and ignores missing entries on delete', async () => {
+    const store = new IndexedDBStore(name)
+    await store.put('queue/2', 'b')
+    await store.put('queue/1', 'a')
+    await store.del('queue/3')
+    expect(await store.entries('queue/')).toEqual([
+      ['queue/1', 'a'],
+      ['queue/2', 'b']
+    ])
+    await store.close()
+  })
+
+  it('replaces and deletes entries', async () => {
+    const store = new IndexedDBStore(name)
+    await store.put('queue/1', 'a')
+    await store.put('queue/1', 'b')
+    await store.put('queue/2', 'c')
+    await store.del('queue/2')
+    expect(await store.entries('')).toEqual([['queue/1', 'b']])
+    await store.close()
+  })
+
+  it('keeps the databases of different names apart', async () => {
+    const store = new IndexedDBStore(name)
+    const other = new IndexedDBStore(`${name}-other`)
+    await store.put('queue/1', 'a')
+    expect(await other.entries('')).toEqual([])
+    await Promise.all([store.close(), other.close()])
+  })
+})
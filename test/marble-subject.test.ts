@@ -0,0 +1,73 @@
+import { TestScheduler } from 'rxjs/testing'
+import { map } from 'rxjs/operators'
+import { MarbleSubject } from '../src/testing'
+import { stringCodec } from '../src/musquette'
+
+describe('MarbleSubject', () => {
+  let scheduler: TestScheduler
+
+  beforeEach(() => {
+    scheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected))
+  })
+
+  it('delivers inbound marbles to subscribed topics', () => {
+    scheduler.run(({ expectObservable }) => {
+      const mqtt = new MarbleSubject(scheduler)
+      mqtt.inbound('sensors/kitchen/temperature', '-a-b', { a: 20, b: 21.5 })
+      mqtt.inbound('sensors/kitchen/humidity', '--c', { c: 40 })
+      mqtt.inbound('lamps/kitchen', 'x')
+      const temperatures = mqtt
+        .topic('sensors/+/temperature')
+        .pipe(map(({ topic, message }) => `${topic}=${message}`))
+      expectObservable(temperatures).toBe('-a-b', {
+        a: 'sensors/kitchen/temperature=20',
+        b: 'sensors/kitchen/temperature=21.5'
+      })
+    })
+  })
+
+  it('emits publishes as marbles with the codec of their topic', () => {
+    scheduler.run(({ cold, expectObservable }) => {
+      const mqtt = new MarbleSubject(scheduler, { codecs: { 'status/#': stringCodec } })
+      cold('-a--b').subscribe(action => mqtt.publish('lamps/kitchen', { action }))
+      cold('--s').subscribe(() => mqtt.publish('status/kitchen', 'online'))
+      expectObservable(mqtt.published('lamps/+')).toBe('-a--b', {
+        a: { action: 'a' },
+        b: { action: 'b' }
+      })
+      expectObservable(mqtt.published()).toBe('-as-b', {
+        a: { action: 'a' },
+        s: 'online',
+        b: { action: 'b' }
+      })
+    })
+  })
+
+  it('connects and disconnects on the frames of the connection marbles', () => {
+    scheduler.run(({ cold, expectObservable }) => {
+      const connected: number[] = []
+      const disconnected: number[] = []
+      const mqtt = new MarbleSubject(scheduler, {
+        connection: '--c-d--c',
+        connectObserver: { next: () => connected.push(scheduler.now()) },
+        disconnectObserver: { next: () => disconnected.push(scheduler.now()) }
+      })
+      mqtt.inbound('lamps/kitchen', 'a--b-c-d', { a: 'on', b: 'off', c: 'on', d: 'off' })
+      cold('-----p').subscribe(() => mqtt.publish('lamps/kitchen', 'on'))
+
+      expectObservable(mqtt.state$.pipe(map(({ status }) => status))).toBe('a-b-c--b', {
+        a: 'connecting',
+        b: 'connected',
+        c: 'offline'
+      })
+      // Only delivered while connected, resubscribed after reconnecting
+      expectObservable(
+        mqtt.topic('lamps/kitchen').pipe(map(({ message }) => message))
+      ).toBe('---b---d', { b: 'off', d: 'off' })
+      // Queued while offline
+      expectObservable(mqtt.published()).toBe('-------p', { p: 'on' })
+      scheduler.schedule(() => expect(connected).toEqual([2, 7]), 8)
+      scheduler.schedule(() => expect(disconnected).toEqual([4]), 8)
+    })
+  })
+})
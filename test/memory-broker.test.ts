@@ -0,0 +1,204 @@
+import { MqttClient } from 'mqtt'
+import { take, toArray } from 'rxjs/operators'
+import { MemoryBroker, MemoryBrokerMessage } from '../src/testing'
+
+const connected = (client: MqttClient) =>
+  new Promise<MqttClient>((resolve, reject) => {
+    client.once('connect', () => resolve(client))
+    client.once('error', reject)
+  })
+
+const subscribed = (client: MqttClient, filter: string, options: any = { qos: 0 }) =>
+  new Promise<any[]>((resolve, reject) =>
+    client.subscribe(filter, options, (error, granted) =>
+      error ? reject(error) : resolve(granted)
+    )
+  )
+
+const received = (client: MqttClient) =>
+  new Promise<[string, Buffer, any]>(resolve =>
+    client.once('message', (topic, payload, packet) => resolve([topic, payload, packet]))
+  )
+
+describe('MemoryBroker', () => {
+  let broker: MemoryBroker
+  let clients: MqttClient[]
+
+  // Ended after each test, without reconnecting once the broker is closed
+  const startClient = (options = {}) => {
+    const client = broker.client({ reconnectPeriod: 0, ...options })
+    clients.push(client)
+    return client
+  }
+
+  beforeEach(() => {
+    broker = new MemoryBroker()
+    clients = []
+  })
+
+  afterEach(() => {
+    clients.forEach(client => client.end(true))
+    broker.close()
+  })
+
+  it('routes messages to subscriptions with wildcards', async () => {
+    const client = await connected(startClient())
+    await subscribed(client, 'sensors/+/temperature')
+    const message = received(client)
+    broker.publish('sensors/kitchen/humidity', 40)
+    broker.publish('sensors/kitchen/temperature', 21.5)
+    const [topic, payload] = await message
+    expect([topic, payload.toString()]).toEqual(['sensors/kitchen/temperature', '21.5'])
+  })
+
+  it('delivers with the lower QoS of the message and the subscription', async () => {
+    const client = await connected(startClient())
+    expect(await subscribed(client, 'lamps/#', { qos: 1 })).toEqual([{ topic: 'lamps/#', qos: 1 }])
+    const message = received(client)
+    broker.publish('lamps/kitchen', 'on', { qos: 2 })
+    const [, , packet] = await message
+    expect(packet.qos).toBe(1)
+  })
+
+  it('sends retained messages with the retain flag and clears them', async () => {
+    broker.publish('config/theme', 'dark', { retain: true })
+    expect(broker.retained('config/theme')!.payload.toString()).toBe('"dark"')
+    const client = await connected(startClient())
+    const message = received(client)
+    await subscribed(client, 'config/#')
+    const [topic, , packet] = await message
+    expect([topic, packet.retain]).toEqual(['config/theme', true])
+    broker.publish('config/theme', undefined, { retain: true })
+    expect(broker.retained('config/theme')).toBeUndefined()
+  })
+
+  it('delivers to one member of a share group in turn', async () => {
+    const first = await connected(startClient())
+    const second = await connected(startClient())
+    await subscribed(first, '$share/workers/jobs/#')
+    await subscribed(second, '$share/workers/jobs/#')
+    const jobs = Promise.all([received(first), received(second)])
+    broker.publish('jobs/1', 1)
+    broker.publish('jobs/2', 2)
+    expect((await jobs).map(([topic]) => topic)).toEqual(['jobs/1', 'jobs/2'])
+  })
+
+  it('publishes the will of clients it disconnects', async () => {
+    const client = startClient({
+      will: { topic: 'status', payload: 'offline', qos: 0, retain: true }
+    })
+    await connected(client)
+    const closed = new Promise(resolve => client.once('close', resolve))
+    broker.disconnect()
+    await closed
+    expect(broker.retained('status')!.payload.toString()).toBe('offline')
+  })
+
+  it('does not publish the will of clients that disconnect', async () => {
+    const client = await connected(
+      startClient({ will: { topic: 'status', payload: 'offline', qos: 0, retain: false } })
+    )
+    const disconnected = broker.disconnected$.pipe(take(1)).toPromise()
+    client.end()
+    expect(await disconnected).toBe(client.options.clientId)
+    expect(broker.published).toEqual([])
+  })
+
+  it('keeps persistent sessions and their QoS 1 messages', async () => {
+    const options = { clientId: 'worker', clean: false }
+    const client = await connected(startClient(options))
+    await subscribed(client, 'jobs/#', { qos: 1 })
+    await new Promise<void>(resolve => client.end(false, {}, () => resolve()))
+    broker.publish('jobs/1', 1, { qos: 1 })
+
+    const resumed = startClient(options)
+    const message = received(resumed)
+    await connected(resumed)
+    const [topic] = await message
+    expect(topic).toBe('jobs/1')
+  })
+
+  it('holds back packets while paused', async () => {
+    const client = await connected(startClient())
+    await subscribed(client, 'lamps/#')
+    const message = jest.fn()
+    client.on('message', message)
+    broker.pause()
+    broker.publish('lamps/kitchen', 'on')
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(message).not.toHaveBeenCalled()
+    const resumed = received(client)
+    broker.resume()
+    await resumed
+    expect(message).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses clients the authenticate option rejects', async () => {
+    broker = new MemoryBroker({ authenticate: (clientId, username) => username === 'admin' })
+    const refused = connected(startClient({ username: 'guest' }))
+    await expect(refused).rejects.toHaveProperty('code', 5)
+  })
+
+  it('rejects subscriptions the authorizeSubscribe option rejects', async () => {
+    broker = new MemoryBroker({ authorizeSubscribe: (clientId, filter) => filter !== '#' })
+    const client = await connected(startClient())
+    expect(await subscribed(client, '#')).toEqual([{ topic: '#', qos: 128 }])
+    expect(broker.subscriptions).toEqual([])
+  })
+
+  it('sets the identifiers of the subscriptions a message matched', async () => {
+    const client = await connected(startClient({ protocolVersion: 5 }))
+    await subscribed(client, 'lamps/#', { qos: 0, properties: { subscriptionIdentifier: 1 } })
+    await subscribed(client, 'lamps/+', { qos: 0, properties: { subscriptionIdentifier: 2 } })
+    const message = received(client)
+    broker.publish('lamps/kitchen', 'on')
+    const [, , packet] = await message
+    expect(packet.properties.subscriptionIdentifier).toEqual([1, 2])
+  })
+
+  it('subscribes topics of subjects with their subscription identifiers', async () => {
+    const connection = broker.subject({ options: { protocolVersion: 5 } })
+    const message = connection
+      .topic('lamps/kitchen', { subscriptionIdentifier: 7 })
+      .pipe(take(1))
+      .toPromise()
+    await broker.expectSubscribed('lamps/kitchen')
+    broker.publish('lamps/kitchen', 'on')
+    expect((await message).properties!.subscriptionIdentifiers).toEqual([7])
+    connection.complete()
+  })
+
+  it('emits subscriptions and messages of subjects', async () => {
+    const subscriptions = broker.subscribed$.pipe(take(2), toArray()).toPromise()
+    const connection = broker.subject()
+    connection.topic('lamps/+').subscribe()
+    connection.topic('$share/group/jobs', { qos: 1 }).subscribe()
+    expect((await subscriptions).map(({ filter, qos }) => [filter, qos])).toEqual([
+      ['lamps/+', 0],
+      ['$share/group/jobs', 1]
+    ])
+    connection.publish('lamps/kitchen', { on: true })
+    const message = await broker.expectPublished('lamps/+', { on: true })
+    expect(message.clientId).toBeDefined()
+    connection.complete()
+  })
+
+  it('resolves expectations with messages that were already published', async () => {
+    broker.publish('firmware', Buffer.from([1, 2]))
+    await broker.expectPublished('firmware', Buffer.from([1, 2]))
+    await broker.expectPublished(
+      'firmware',
+      ({ payload }: MemoryBrokerMessage) => payload.length === 2
+    )
+  })
+
+  it('rejects expectations that are not met in time', async () => {
+    broker.publish('lamps/kitchen', 'off')
+    await expect(broker.expectPublished('lamps/kitchen', 'on', { timeout: 10 })).rejects.toThrow(
+      'Expected a message on lamps/kitchen with "on" within 10ms, published: lamps/kitchen "\\"off\\""'
+    )
+    await expect(broker.expectSubscribed('lamps/#', { timeout: 10 })).rejects.toThrow(
+      'Expected a subscription to lamps/# within 10ms, subscribed: none'
+    )
+  })
+})
@@ -0,0 +1,43 @@
+import { toPacketProperties, fromPacketProperties } from '../src/message-properties'
+
+describe('toPacketProperties', () => {
+  it('drops subscription identifiers and undefined properties', () => {
+    const correlationData = Buffer.from('42')
+    expect(
+      toPacketProperties({
+        contentType: 'application/json',
+        correlationData,
+        responseTopic: undefined,
+        subscriptionIdentifiers: [1]
+      })
+    ).toEqual({ contentType: 'application/json', correlationData })
+  })
+  it('is undefined without properties', () => {
+    expect(toPacketProperties()).toBeUndefined()
+    expect(toPacketProperties({ subscriptionIdentifiers: [1] })).toBeUndefined()
+  })
+})
+
+describe('fromPacketProperties', () => {
+  it('collects subscription identifiers in an array', () => {
+    expect(fromPacketProperties({ subscriptionIdentifier: 3 })).toEqual({
+      subscriptionIdentifiers: [3]
+    })
+    expect(fromPacketProperties({ subscriptionIdentifier: [3, 4] as any })).toEqual({
+      subscriptionIdentifiers: [3, 4]
+    })
+  })
+  it('keeps user properties and drops the topic alias', () => {
+    expect(
+      fromPacketProperties({
+        topicAlias: 1,
+        userProperties: { unit: 'celsius' },
+        messageExpiryInterval: 60
+      })
+    ).toEqual({ userProperties: { unit: 'celsius' }, messageExpiryInterval: 60 })
+  })
+  it('is undefined without properties', () => {
+    expect(fromPacketProperties()).toBeUndefined()
+    expect(fromPacketProperties({ topicAlias: 1 })).toBeUndefined()
+  })
+})
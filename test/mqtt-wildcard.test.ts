@@ -1,4 +1,4 @@
-import mqttWildcard from '../src/mqtt-wildcard'
+import mqttWildcard, { filterCovers, filtersOverlap, parseSharedFilter } from '../src/mqtt-wildcard'
 // const mw = require('../src/mqtt-wildcard')
 const mw = mqttWildcard
 
@@ -194,3 +194,71 @@ describe('examples', function() {
     expect(mw('test/foo/bar', 'test/nope/bar')).toEqual(null)
   })
 })
+
+describe('filter coverage', function() {
+  it('should cover identical filters', function() {
+    expect(filterCovers('test/+', 'test/+')).toBe(true)
+  })
+  it('should cover narrower filters with #', function() {
+    expect(filterCovers('#', 'test/test')).toBe(true)
+    expect(filterCovers('test/#', 'test')).toBe(true)
+    expect(filterCovers('test/#', 'test/+/test')).toBe(true)
+    expect(filterCovers('test/#', 'test/test/#')).toBe(true)
+  })
+  it('should cover narrower filters with +', function() {
+    expect(filterCovers('test/+', 'test/test')).toBe(true)
+    expect(filterCovers('+/+', 'test/+')).toBe(true)
+  })
+  it('should not cover wider filters', function() {
+    expect(filterCovers('test/+', 'test/#')).toBe(false)
+    expect(filterCovers('test/test', 'test/+')).toBe(false)
+    expect(filterCovers('test/+/#', 'test/#')).toBe(false)
+  })
+  it('should not cover other filters', function() {
+    expect(filterCovers('test/+', 'foo/test')).toBe(false)
+    expect(filterCovers('test/+', 'test/test/test')).toBe(false)
+    expect(filterCovers('test/test/test', 'test/test')).toBe(false)
+  })
+})
+
+describe('filter overlap', function() {
+  it('should overlap filters matching a common topic', function() {
+    expect(filtersOverlap('test/+', 'test/test')).toBe(true)
+    expect(filtersOverlap('+/test', 'test/+')).toBe(true)
+    expect(filtersOverlap('test/#', 'test')).toBe(true)
+    expect(filtersOverlap('#', '$SYS/#')).toBe(false)
+  })
+  it('should not overlap filters of different topics', function() {
+    expect(filtersOverlap('test/+', 'test')).toBe(false)
+    expect(filtersOverlap('test/+/test', 'test/foo/bar')).toBe(false)
+    expect(filtersOverlap('+/+', 'test/test/test')).toBe(false)
+  })
+})
+
+describe('shared filters', function() {
+  it('should split the share group from the filter', function() {
+    expect(parseSharedFilter('$share/workers/jobs/#')).toEqual({ shareGroup: 'workers', filter: 'jobs/#' })
+  })
+  it('should pass other filters through', function() {
+    expect(parseSharedFilter('jobs/#')).toEqual({ filter: 'jobs/#' })
+    expect(parseSharedFilter('$share/workers')).toEqual({ filter: '$share/workers' })
+  })
+})
+
+describe('$ topics', function() {
+  it('should not match wildcards at the first level', function() {
+    expect(mw('$SYS/broker/uptime', '#')).toEqual(null)
+    expect(mw('$SYS/broker/uptime', '+/broker/uptime')).toEqual(null)
+    expect(mw('$SYS/broker', '+/#')).toEqual(null)
+  })
+  it('should match explicit $ levels', function() {
+    expect(mw('$SYS/broker/uptime', '$SYS/#')).toEqual(['broker/uptime'])
+    expect(mw('$SYS/broker/uptime', '$SYS/+/uptime')).toEqual(['broker'])
+  })
+  it('should not cover $ filters with first level wildcards', function() {
+    expect(filterCovers('#', '$SYS/#')).toBe(false)
+    expect(filterCovers('+/broker', '$SYS/broker')).toBe(false)
+    expect(filterCovers('$SYS/#', '$SYS/broker')).toBe(true)
+  })
+})
+
@@ -1,45 +1,53 @@
-import { MQTTSubject, connect } from '../src/musquette'
+import {
+  MQTTSubject,
+  MQTTMessage,
+  connect,
+  stringCodec,
+  SubscriptionRejectedError,
+  SubscriptionConflictError,
+  SubscriptionFailedError,
+  InvalidTopicError,
+  DeserializationError,
+  ValidationError,
+  AuthenticationError,
+  ConnectionError,
+  PublishError,
+  SerializationError,
+  StoreError,
+  InvalidArgumentError,
+  MemoryStore
+} from '../src/musquette'
+import { MemoryBroker, MemoryBrokerMessage, MemoryBrokerOptions } from '../src/testing'
 import { Subject } from 'rxjs'
+import { first, map, skipWhile, take } from 'rxjs/operators'
+import { createServer, AddressInfo, Server } from 'net'
+import { Duplex } from 'stream'
 
-const mosca = require('mosca')
-
-let port = 1884
 const noop = () => {}
 
-// TODO: await broker ready
 function startBroker(
-  serverReady = noop,
-  clientConnected = client => {},
-  published = (packet, client) => {},
-  failed = () => {}
+  ready = noop,
+  clientConnected = (clientId: string) => {},
+  published = (message: MemoryBrokerMessage, clientId?: string) => {},
+  options?: MemoryBrokerOptions
 ) {
-  port = port + 1
-  var server = new mosca.Server({ port })
-
-  server.on('clientConnected', clientConnected)
-
-  server.on('published', published)
-
-  server.on('ready', serverReady)
-
-  setTimeout(() => {
-    server.close()
-    failed()
-  }, 6000)
-
-  return [port, server]
+  const broker = new MemoryBroker(options)
+  broker.connected$.subscribe(clientConnected)
+  broker.published$.subscribe(message => published(message, message.clientId))
+  // Once the caller has a reference to the broker
+  setTimeout(ready)
+  return broker
 }
 
 describe('Connect', () => {
-  let port, broker
+  let broker: MemoryBroker
 
-  beforeEach(done => {
-    ;[port, broker] = startBroker(done)
+  beforeEach(() => {
+    broker = new MemoryBroker()
   })
 
-  afterEach(done => {
+  afterEach(() => {
     broker.close()
-    done()
   })
 
   it('emits error if server cannot be found', done => {
@@ -60,7 +68,7 @@ describe('Connect', () => {
         done()
       }
     })
-    new MQTTSubject({ url: `mqtt://localhost:${port}`, connectObserver }).subscribe()
+    broker.subject({ connectObserver }).subscribe()
   })
 
   it('supplied disconnectingObserver is notified when observable is completed', done => {
@@ -72,7 +80,7 @@ describe('Connect', () => {
         done()
       }
     })
-    let connection = new MQTTSubject({ url: `mqtt://localhost:${port}`, disconnectingObserver })
+    let connection = broker.subject({ disconnectingObserver })
     connection.subscribe()
     connection.complete()
   })
@@ -86,7 +94,7 @@ describe('Connect', () => {
         done()
       }
     })
-    let connection = new MQTTSubject({ url: `mqtt://localhost:${port}`, disconnectObserver })
+    let connection = broker.subject({ disconnectObserver })
     connection.subscribe()
     connection.complete()
   })
@@ -100,16 +108,16 @@ describe('Connect', () => {
         done()
       }
     })
-    connect({ url: `mqtt://localhost:${port}`, connectObserver }).subscribe()
+    connect({ url: 'mqtt://memory', transport: broker.transport(), connectObserver }).subscribe()
   })
 })
 
 describe('publishing', () => {
   it('publish message as MQTTMessage', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject({ url: `mqtt://localhost:${port}` })
+        let connection = broker.subject()
         connection.subscribe()
         connection.next({ topic: 'topic', message: 'message' })
       },
@@ -126,9 +134,9 @@ describe('publishing', () => {
 
   it('publish message as MQTTMessage without subscribing first', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject({ url: `mqtt://localhost:${port}` })
+        let connection = broker.subject()
         connection.next({ topic: 'topic', message: 'message' })
       },
       noop,
@@ -144,9 +152,9 @@ describe('publishing', () => {
 
   it('publish message with arguments syntax', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject({ url: `mqtt://localhost:${port}` })
+        let connection = broker.subject()
         connection.subscribe()
         connection.publish('topic', 'message')
       },
@@ -157,8 +165,7 @@ describe('publishing', () => {
         expect(message).toEqual('message')
         broker.close()
         done()
-      },
-      done
+      }
     )
   })
 })
@@ -166,9 +173,9 @@ describe('publishing', () => {
 describe('topic', () => {
   it('listen to data published on the topic', done => {
     expect.assertions(2)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         connection.subscribe()
         let topic = connection.topic('topic')
         topic.subscribe(({ topic, message }) => {
@@ -178,14 +185,9 @@ describe('topic', () => {
           done()
         })
 
-        setTimeout(() => {
-          broker.publish({
-            topic: 'topic',
-            payload: JSON.stringify('message'),
-            qos: 0,
-            retain: true
-          })
-        }, 300)
+        broker
+          .expectSubscribed('topic')
+          .then(() => broker.publish('topic', 'message', { retain: true }))
       },
       noop,
       noop
@@ -194,11 +196,11 @@ describe('topic', () => {
 
   it('warn if topic starts with a slash', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
         let warning = jest.fn()
         console.warn = warning
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         let topic = connection.topic('/topic')
         topic.subscribe()
         setTimeout(() => {
@@ -214,9 +216,9 @@ describe('topic', () => {
 
   it('publish data on the topic', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         connection.subscribe()
         let topic = connection.topic('topic')
 
@@ -239,9 +241,9 @@ describe('topic', () => {
 
   it('publish data on the topic with arguments', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         connection.subscribe()
         let topic = connection.topic('topic')
 
@@ -261,9 +263,9 @@ describe('topic', () => {
 
   it('publish data on topic without subscribing first', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         let topic = connection.topic('topic')
 
         topic.next({
@@ -284,9 +286,9 @@ describe('topic', () => {
   })
 
   it('published messages are not sent to all clients', done => {
-    let [port, broker] = startBroker(() => {
+    const broker = startBroker(() => {
       let never = jest.fn()
-      let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+      let connection = broker.subject()
       connection.subscribe(never)
 
       connection.publish('t', {})
@@ -304,9 +306,9 @@ describe('topic', () => {
 describe('wildcards', () => {
   it('listen to data published on a # wildcard topic', done => {
     expect.assertions(2)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         let topic = connection.topic('topic/#')
         let subscription = topic.subscribe(({ topic, message }) => {
           expect(topic).toBe('topic/topic')
@@ -315,14 +317,7 @@ describe('wildcards', () => {
           broker.close()
           done()
         })
-        setTimeout(() => {
-          broker.publish({
-            topic: 'topic/topic',
-            payload: JSON.stringify('message'),
-            qos: 0,
-            retain: false
-          })
-        }, 300)
+        broker.expectSubscribed('topic/#').then(() => broker.publish('topic/topic', 'message'))
       },
       noop,
       noop
@@ -331,9 +326,9 @@ describe('wildcards', () => {
 
   it('listen to data published on a + wildcard topic', done => {
     expect.assertions(2)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         let topic = connection.topic('topic/+/topic')
         let subscription = topic.subscribe(({ topic, message }) => {
           expect(topic).toBe('topic/topic/topic')
@@ -343,14 +338,9 @@ describe('wildcards', () => {
           done()
         })
 
-        setTimeout(() => {
-          broker.publish({
-            topic: 'topic/topic/topic',
-            payload: JSON.stringify('message'),
-            qos: 0,
-            retain: false
-          })
-        }, 300)
+        broker
+          .expectSubscribed('topic/+/topic')
+          .then(() => broker.publish('topic/topic/topic', 'message'))
       },
       noop,
       noop
@@ -359,10 +349,10 @@ describe('wildcards', () => {
 
   // it('publishing on wildcard topic throws an error with publish method', done => {
   //   expect.assertions(1)
-  //   const [port, broker] = startBroker(
+  //   const broker = startBroker(
   //     () => {
   //       try {
-  //         let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+  //         let connection = broker.subject()
   //         connection.subscribe()
   //         let topic = connection.topic('topic/#')
 
@@ -382,9 +372,9 @@ describe('wildcards', () => {
 
   it('publishing on wildcard topic throws an error with next', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         connection.subscribe({
           error: err => {
             expect(err.message).toContain('ERR_INVALID_ARG_TYPE')
@@ -394,19 +384,18 @@ describe('wildcards', () => {
         })
         let topic = connection.topic('topic/#')
 
-        topic.next('message')
+        topic.next(('message' as unknown) as MQTTMessage<any>)
       },
       noop,
-      noop,
-      done
+      noop
     )
   })
 
   it('publishing data as MQTTMessage type on a wildcard topic works, aka specifying a topic to publish on', done => {
     expect.assertions(1)
-    const [port, broker] = startBroker(
+    const broker = startBroker(
       () => {
-        let connection = new MQTTSubject(`mqtt://localhost:${port}`)
+        let connection = broker.subject()
         connection.subscribe()
         let topic = connection.topic('topic/#')
 
@@ -427,3 +416,1339 @@ describe('wildcards', () => {
     )
   })
 })
+
+describe('codecs', () => {
+  it('topic with raw option passes payloads through as Buffers', done => {
+    expect.assertions(2)
+    const broker = startBroker(
+      () => {
+        let connection = broker.subject()
+        let topic = connection.topic('firmware/chunk', { raw: true })
+        let subscription = topic.subscribe(({ message }) => {
+          expect(Buffer.isBuffer(message)).toBe(true)
+          expect(message).toEqual(Buffer.from([0, 1, 2]))
+          subscription.unsubscribe()
+          connection.complete()
+          broker.close()
+          done()
+        })
+        broker
+          .expectSubscribed('firmware/chunk')
+          .then(() => broker.publish('firmware/chunk', Buffer.from([0, 1, 2])))
+      },
+      noop,
+      noop
+    )
+  })
+
+  it('topic serializer is used when publishing on the topic', done => {
+    expect.assertions(1)
+    const broker = startBroker(
+      () => {
+        let connection = broker.subject<string>()
+        let topic = connection.topic('status', {
+          serializer: (value: string) => Buffer.from(value)
+        })
+        topic.publish('online')
+      },
+      noop,
+      ({ topic, payload }) => {
+        if (topic === 'status') {
+          expect(payload.toString()).toBe('online')
+          broker.close()
+          done()
+        }
+      }
+    )
+  })
+
+  it('codec rules in the config are picked by matching topic', done => {
+    expect.assertions(1)
+    const broker = startBroker(
+      () => {
+        let connection = broker.subject({
+          codecs: { 'status/+': stringCodec }
+        })
+        connection.publish('status/device', 'online')
+      },
+      noop,
+      ({ topic, payload }) => {
+        if (topic === 'status/device') {
+          expect(payload.toString()).toBe('online')
+          broker.close()
+          done()
+        }
+      }
+    )
+  })
+})
+
+describe('subscriptions', () => {
+  it('subscribes at the broker when the first observer subscribes to a topic', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let topic = connection.topic('topic')
+      broker.subscribed$.subscribe(({ filter: topic }) => {
+        expect(topic).toBe('topic')
+        connection.complete()
+        broker.close()
+        done()
+      })
+      setTimeout(() => topic.subscribe(), 300)
+    })
+  })
+
+  it('unsubscribes at the broker when the last observer unsubscribes', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let first = connection.topic('topic').subscribe()
+      let second = connection.topic('topic').subscribe()
+      let unsubscribed = jest.fn()
+      broker.unsubscribed$.subscribe(unsubscribed)
+      broker.subscribed$.subscribe(() => {
+        first.unsubscribe()
+        setTimeout(() => second.unsubscribe(), 300)
+        setTimeout(() => {
+          expect(unsubscribed).toHaveBeenCalledTimes(1)
+          connection.complete()
+          broker.close()
+          done()
+        }, 600)
+      })
+    })
+  })
+})
+
+describe('subscription options', () => {
+  it('subscribes with the requested QoS and emits the granted QoS', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let topic = connection.topic('topic', { qos: 2 })
+      broker.subscribed$.subscribe(({ qos }) => expect(qos).toBe(2))
+      topic.subscribe()
+      topic.granted$.subscribe(qos => {
+        expect(qos).toBe(2)
+        connection.complete()
+        broker.close()
+        done()
+      })
+    })
+  })
+
+  it('errors topic subscribers if the broker rejects the subscription', done => {
+    expect.assertions(3)
+    const broker = startBroker(
+      () => {
+        let connection = broker.subject()
+        connection.topic('forbidden').subscribe({
+          error: error => {
+            expect(error).toBeInstanceOf(SubscriptionRejectedError)
+            expect(error.topic).toBe('forbidden')
+            expect(error.reasonCode).toBe(0x80)
+            connection.complete()
+            broker.close()
+            done()
+          }
+        })
+      },
+      noop,
+      noop,
+      { authorizeSubscribe: () => false }
+    )
+  })
+
+  it('subscribes covered filters on their own if the broker rejects the covering filter', done => {
+    expect.assertions(3)
+    const broker = startBroker(
+      () => {
+        let connection = broker.subject()
+        connection.topic('lamps/#').subscribe({
+          error: error => expect(error.topic).toBe('lamps/#')
+        })
+        let kitchen = connection.topic('lamps/kitchen')
+        kitchen.granted$.subscribe(qos => expect(qos).toBe(0))
+        kitchen.subscribe(({ message }) => {
+          expect(message).toBe('on')
+          connection.complete()
+          broker.close()
+          done()
+        })
+        broker.expectSubscribed('lamps/kitchen').then(() => broker.publish('lamps/kitchen', 'on'))
+      },
+      noop,
+      noop,
+      { authorizeSubscribe: (clientId, filter) => filter !== 'lamps/#' }
+    )
+  })
+
+  it('errors topic subscribers if the subscription fails', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      const client = broker.client()
+      client.on('connect', () => {
+        jest
+          .spyOn(client, 'subscribe')
+          .mockImplementationOnce(((subscriptions: any, options: any, callback: any) =>
+            callback(new Error('Store failed'))) as any)
+        let connection = new MQTTSubject({ url: '', client })
+        connection.topic('lamps/kitchen').subscribe({
+          error: error => {
+            expect(error).toBeInstanceOf(SubscriptionFailedError)
+            expect(error.message).toBe(
+              'SUBSCRIBEFAILED: Could not subscribe to lamps/kitchen: Store failed'
+            )
+            connection.complete()
+            client.end()
+            broker.close()
+            done()
+          }
+        })
+      })
+    })
+  })
+})
+
+describe('acknowledgements', () => {
+  it('publish completes when a QoS 1 message is acknowledged', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let published = jest.fn()
+      broker.published$.subscribe(packet => {
+        if (packet.topic === 'topic') published()
+      })
+      connection.publish('topic', 'message', { qos: 1 }).subscribe({
+        complete: () => {
+          expect(published).toHaveBeenCalled()
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('publish on a topic completes when the message is acknowledged', done => {
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection
+        .topic('topic')
+        .publish('message', { qos: 1 })
+        .subscribe({
+          complete: () => {
+            connection.complete()
+            broker.close()
+            done()
+          }
+        })
+    })
+  })
+
+  it('publish errors if the message is not acknowledged in time', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      broker.pause()
+      let connection = broker.subject({ publishTimeout: 1 })
+      connection.publish('topic', 'message', { qos: 1 }).subscribe({
+        error: error => {
+          expect(error.message).toContain('PUBLISHTIMEOUT')
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('publish errors once the subject is completed', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.complete()
+      connection.publish('topic', 'message', { qos: 1 }).subscribe({
+        error: error => {
+          expect(error).toBeInstanceOf(PublishError)
+          expect(error.code).toBe('NOTCONNECTED')
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+})
+
+describe('reconnect', () => {
+  it('keeps topic subscribers and resubscribes after the connection is lost', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject({
+        reconnect: { initialDelay: 100, jitter: 0 }
+      })
+      connection.topic('topic').subscribe(({ message }) => {
+        expect(message).toBe('message')
+        connection.complete()
+        broker.close()
+        done()
+      })
+
+      broker.subscribed$.pipe(take(1)).subscribe(() => {
+        broker.disconnect()
+        broker.subscribed$.pipe(take(1)).subscribe(() => broker.publish('topic', 'message'))
+      })
+    })
+  })
+
+  it('notifies the disconnectObserver when the connection is lost', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let disconnectObserver = new Subject<CloseEvent | Error>()
+      let connection = broker.subject({
+        reconnect: { initialDelay: 100, jitter: 0 },
+        disconnectObserver
+      })
+      disconnectObserver.pipe(take(1)).subscribe(() => {
+        connection.state$.pipe(take(1)).subscribe(({ status }) => expect(status).toBe('offline'))
+        connection.complete()
+        broker.close()
+        done()
+      })
+      connection.topic('topic').subscribe()
+      broker.subscribed$.pipe(take(1)).subscribe(() => broker.disconnect())
+    })
+  })
+
+  it('errors once the reconnect attempts are exhausted', done => {
+    expect.assertions(1)
+    let connection = new MQTTSubject({
+      url: `mqtt://localhost:${1234}`,
+      reconnect: { initialDelay: 10, maxAttempts: 2 }
+    })
+    connection.subscribe({
+      error: (error: Error) => {
+        expect(error.message).toContain('ECONNREFUSED')
+        done()
+      }
+    })
+  })
+})
+
+describe('connection state', () => {
+  it('emits the states of the connection', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let states: string[] = []
+      connection.state$.subscribe({
+        next: state => {
+          states.push(state.status)
+          if (state.status === 'connected') {
+            expect(state.connack).toHaveProperty('cmd', 'connack')
+            connection.complete()
+          }
+        },
+        complete: () => {
+          expect(states).toEqual(['connecting', 'connected', 'disconnecting', 'closed'])
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('replays the current state to late subscribers', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject({
+        connectObserver: {
+          next: () => {
+            connection.state$.pipe(take(1)).subscribe(state => {
+              expect(state.status).toBe('connected')
+              connection.complete()
+              broker.close()
+              done()
+            })
+          }
+        }
+      })
+    })
+  })
+
+  it('attaches the error to the closed state', done => {
+    expect.assertions(2)
+    let connection = new MQTTSubject(`mqtt://localhost:${1234}`)
+    connection.subscribe({ error: noop })
+    connection.state$.subscribe(state => {
+      if (state.status === 'closed') {
+        expect(state.error).toBeDefined()
+        expect(state.error!.message).toContain('ECONNREFUSED')
+        done()
+      }
+    })
+  })
+
+  it('emits offline and reconnecting states when reconnecting', done => {
+    expect.assertions(1)
+    let connection = new MQTTSubject({
+      url: `mqtt://localhost:${1234}`,
+      reconnect: { initialDelay: 10, maxAttempts: 1, jitter: 0 }
+    })
+    connection.subscribe({ error: noop })
+    let states: string[] = []
+    connection.state$.subscribe({
+      next: state => states.push(state.status),
+      complete: () => {
+        expect(states).toEqual(['connecting', 'offline', 'reconnecting', 'offline', 'closed'])
+        done()
+      }
+    })
+  })
+})
+
+describe('publish queue', () => {
+  it('flushes messages published before connecting in order', done => {
+    expect.assertions(1)
+    let received: string[] = []
+    const broker = startBroker(
+      () => {
+        let connection = broker.subject()
+        connection.publish('queue', 'first')
+        connection.next({ topic: 'queue', message: 'second' })
+        connection.publish('queue', 'third')
+      },
+      noop,
+      ({ topic, payload }) => {
+        if (topic !== 'queue') return
+        received.push(JSON.parse(payload.toString()))
+        if (received.length === 3) {
+          expect(received).toEqual(['first', 'second', 'third'])
+          broker.close()
+          done()
+        }
+      }
+    )
+  })
+
+  it('applies the overflow policy and exposes the queue depth', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject({
+        queue: { capacity: 1, overflow: 'error' }
+      })
+      let depths: number[] = []
+      connection.queueDepth$.subscribe(depth => depths.push(depth))
+      connection.publish('queue', 'first')
+      connection.publish('queue', 'second').subscribe({
+        error: error => expect(error.message).toContain('QUEUEFULL')
+      })
+      connection.state$.subscribe(state => {
+        if (state.status === 'connected') connection.complete()
+      })
+      connection.subscribe({
+        complete: () => {
+          expect(depths).toEqual([0, 1, 0])
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('emits QUEUEFULL of messages sent with next() on errors$ and keeps subscribers', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject({
+        queue: { capacity: 1, overflow: 'error' }
+      })
+      let lamp = connection.topic('lamps/kitchen')
+      connection.errors$.subscribe(error => expect(error.code).toBe('QUEUEFULL'))
+      lamp.subscribe(({ message }) => {
+        expect(message).toBe('on')
+        connection.complete()
+        broker.close()
+        done()
+      })
+      lamp.next({ topic: 'lamps/kitchen', message: 'on' })
+      lamp.next({ topic: 'lamps/kitchen', message: 'off' })
+    })
+  })
+
+  it('errors acknowledgements of expired messages', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.publish('queue', 'message', { ttl: 0 }).subscribe({
+        error: error => {
+          expect(error.message).toContain('EXPIRED')
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+})
+
+describe('session store', () => {
+  it('sends messages queued by a previous session', done => {
+    expect.assertions(2)
+    const store = new MemoryStore()
+    const broker = startBroker(
+      () => {
+        let previous = broker.subject({ store })
+        previous.publish('session', 'queued', { qos: 1 }).subscribe({
+          error: error => expect(error.code).toBe('PERSISTED')
+        })
+        previous.complete()
+        broker.subject({ store }).subscribe()
+      },
+      noop,
+      ({ topic, payload }) => {
+        if (topic !== 'session') return
+        expect(payload.toString()).toBe('"queued"')
+        broker.close()
+        done()
+      }
+    )
+  })
+
+  it('resends QoS 1 messages a previous run published but did not get acknowledged', done => {
+    expect.assertions(3)
+    const store = new MemoryStore()
+    const options = { clientId: 'sensor', clean: false }
+    const broker = startBroker(async () => {
+      let previous = broker.subject({ store, options })
+      await previous.state$.pipe(first(({ status }) => status === 'connected')).toPromise()
+      broker.pause()
+      previous.publish('alarm', 'high', { qos: 1 })
+      await broker.expectPublished('alarm')
+      // The process dies before the PUBACK arrives, the store is what survives
+      const survived = new MemoryStore()
+      for (const [key, value] of await store.entries('')) {
+        await survived.put(key, value)
+      }
+      expect((await survived.entries('outgoing/')).length).toBe(1)
+      broker.resume()
+      previous.complete()
+
+      broker.published$.subscribe(async ({ topic, payload }) => {
+        expect(payload.toString()).toBe('"high"')
+        // Until it is acknowledged again
+        setTimeout(async () => {
+          expect(await survived.entries('outgoing/')).toEqual([])
+          restarted.complete()
+          broker.close()
+          done()
+        }, 50)
+      })
+      let restarted = broker.subject({ store: survived, options })
+    })
+  })
+
+  it('emits failed writes of the session on errors$', done => {
+    expect.assertions(2)
+    const store = new MemoryStore()
+    jest.spyOn(store, 'put').mockRejectedValue(new Error('Disk full'))
+    const broker = startBroker(() => {
+      let connection = broker.subject({ store })
+      connection.errors$.pipe(take(1)).subscribe(error => {
+        expect(error).toBeInstanceOf(StoreError)
+        expect(error.code).toBe('STOREFAILED')
+        connection.complete()
+        broker.close()
+        done()
+      })
+      connection.publish('session', 'queued', { qos: 1 })
+    })
+  })
+})
+
+describe('request response', () => {
+  it('replies to requests with the result of the handler', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let server = broker.subject()
+      let client = broker.subject()
+      server.respond('rpc/add', ({ a, b }) => Promise.resolve(a + b))
+      client.request('rpc/add', { a: 1, b: 2 }, { timeout: 2000 }).subscribe(sum => {
+        expect(sum).toBe(3)
+        server.complete()
+        client.complete()
+        broker.close()
+        done()
+      })
+    })
+  })
+
+  it('errors with the error of the handler', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.respond('rpc/fail', () => {
+        throw new Error('unsupported')
+      })
+      connection.request('rpc/fail', {}, { timeout: 2000 }).subscribe({
+        error: error => {
+          expect(error.message).toContain('REQUESTFAILED')
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('errors if no reply arrives in time', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.request('rpc/nobody', {}, { timeout: 100 }).subscribe({
+        error: error => {
+          expect(error.message).toContain('REQUESTTIMEOUT')
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+})
+
+describe('shared subscriptions', () => {
+  it('subscribes the share group and routes messages by the filter', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let jobs = connection.topic('jobs/#', { shareGroup: 'workers' })
+      broker.subscribed$.subscribe(({ filter: topic }) => {
+        expect(topic).toBe('$share/workers/jobs/#')
+        broker.publish('jobs/1', 'job')
+      })
+      jobs.subscribe(({ topic }) => {
+        expect(topic).toBe('jobs/1')
+        connection.complete()
+        broker.close()
+        done()
+      })
+    })
+  })
+
+  it('errors subscribers of filters overlapping a shared subscription', done => {
+    expect.assertions(3)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.topic('jobs/#', { shareGroup: 'workers' }).subscribe()
+      connection.topic('lamps/#').subscribe()
+      connection.topic('jobs/1').subscribe({
+        error: error => {
+          expect(error).toBeInstanceOf(SubscriptionConflictError)
+          expect(error.message).toBe(
+            'SUBSCRIBECONFLICT: Cannot subscribe to jobs/1 and $share/workers/jobs/# on the same connection, their messages overlap'
+          )
+        }
+      })
+      connection.topic('#', { shareGroup: 'others' }).subscribe({
+        error: error => {
+          expect(error.conflicting).toBe('$share/workers/jobs/#')
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+})
+
+describe('topic validation', () => {
+  it('throws on malformed topic filters', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      expect(() => connection.topic('sensors/#/temperature')).toThrow(InvalidTopicError)
+      connection.complete()
+      broker.close()
+      done()
+    })
+  })
+
+  it('errors the acknowledgement of messages published on invalid topics', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.publish('sensors/+', 'message').subscribe({
+        error: error => {
+          expect(error.message).toContain('INVALIDTOPIC')
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('emits an InvalidTopicError for messages sent with next() on invalid topics', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.errors$.pipe(take(1)).subscribe(error => {
+        expect(error).toBeInstanceOf(InvalidTopicError)
+        connection.next({ topic: 'sensors', message: 'message' })
+      })
+      connection.next({ topic: '', message: 'message' })
+      broker.expectPublished('sensors', 'message').then(message => {
+        expect(message.topic).toBe('sensors')
+        connection.complete()
+        broker.close()
+        done()
+      })
+    })
+  })
+})
+
+describe('topic params', () => {
+  it('emits the levels captured by named wildcards', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let devices = connection.topic('sites/+site/devices/+deviceId/#rest')
+      devices.subscribe(({ params }) => {
+        expect(params).toEqual({ site: 'berlin', deviceId: '42', rest: 'sensors/temperature' })
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() =>
+        connection.publish('sites/berlin/devices/42/sensors/temperature', 21.5)
+      )
+    })
+  })
+})
+
+describe('inbound metadata', () => {
+  it('emits retain, qos, dup and the packet of inbound messages', done => {
+    expect.assertions(5)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let status = connection.topic('lamps/kitchen', { qos: 1 })
+      status.subscribe(({ qos, retain, dup, packet }) => {
+        expect(qos).toBe(1)
+        expect(retain).toBe(false)
+        expect(dup).toBe(false)
+        expect(packet!.topic).toBe('lamps/kitchen')
+        expect(packet!.payload.toString()).toBe('"on"')
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => connection.publish('lamps/kitchen', 'on', { qos: 1 }))
+    })
+  })
+
+  it('splits retained messages from live ones', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      broker.publish('lamps/kitchen', 'off', { retain: true })
+      let connection = broker.subject()
+      let status = connection.topic('lamps/kitchen')
+      status.retained$.subscribe(({ message }) => expect(message).toBe('off'))
+      status.live$.subscribe(({ message }) => {
+        expect(message).toBe('on')
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => broker.publish('lamps/kitchen', 'on'))
+    })
+  })
+
+  it('does not emit retained messages again when overlapping filters change', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      broker.publish('cfg/lamp', 'on', { retain: true })
+      let connection = broker.subject()
+      let retained = jest.fn()
+      connection.topic('cfg/lamp').retained$.subscribe(retained)
+      broker.expectSubscribed('cfg/lamp').then(() => {
+        // Covers cfg/lamp, which is subscribed again once it is removed
+        let wide = connection.topic('cfg/#').subscribe()
+        setTimeout(() => wide.unsubscribe(), 100)
+        setTimeout(() => {
+          expect(retained).toHaveBeenCalledTimes(1)
+          connection.complete()
+          broker.close()
+          done()
+        }, 300)
+      })
+    })
+  })
+
+  it('emits every live retained message with retainAsPublished', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject({ options: { protocolVersion: 5 } })
+      let status = jest.fn()
+      connection.topic('devices/1/status', { retainAsPublished: true }).subscribe(status)
+      broker.expectSubscribed('devices/1/status').then(() => {
+        ;[1, 2, 3].forEach(() => broker.publish('devices/1/status', 'online', { retain: true }))
+        setTimeout(() => {
+          expect(status).toHaveBeenCalledTimes(3)
+          connection.complete()
+          broker.close()
+          done()
+        }, 100)
+      })
+    })
+  })
+})
+
+describe('retained state', () => {
+  it('emits the retained value on subscribe and publishes updates retained', done => {
+    expect.assertions(3)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.publish('config/theme', 'light', { qos: 1, retain: true }).subscribe({
+        complete: () => {
+          let theme = connection.state('config/theme')
+          let values: any[] = []
+          theme.subscribe(value => {
+            values.push(value)
+            if (values.length === 1) {
+              theme.next('dark')
+            } else if (values.length === 2) {
+              theme.pipe(take(1)).subscribe(value => {
+                // late subscribers get the current value
+                expect(value).toBe('dark')
+                expect(theme.value).toBe('dark')
+                theme.clear()
+              })
+            } else {
+              expect(values).toEqual(['light', 'dark', undefined])
+              connection.complete()
+              broker.close()
+              done()
+            }
+          })
+        }
+      })
+    })
+  })
+
+  it('emits cleared values as undefined without decoding or validating them', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.rejections$.subscribe(error => done.fail(error))
+      let theme = connection.state('config/theme', {
+        ...stringCodec,
+        validator: { type: 'string', minLength: 1 }
+      })
+      let values: any[] = []
+      theme.subscribe(value => {
+        values.push(value)
+        if (values.length === 1) {
+          theme.clear()
+        } else {
+          expect(values).toEqual(['dark', undefined])
+          expect(theme.value).toBe(undefined)
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+      broker.publish('config/theme', Buffer.from('dark'), { retain: true })
+    })
+  })
+
+  it('publishes with QoS 1 and the retain flag', done => {
+    expect.assertions(3)
+    let connection: MQTTSubject
+    const broker = startBroker(
+      () => {
+        connection = broker.subject()
+        connection.state('config/theme').next('dark')
+      },
+      undefined,
+      (packet, client) => {
+        if (!client) return
+        expect(packet.qos).toBe(1)
+        expect(packet.retain).toBe(true)
+        expect(packet.payload.toString()).toBe('"dark"')
+        connection.complete()
+        broker.close()
+        done()
+      }
+    )
+  })
+})
+
+describe('snapshot', () => {
+  it('emits the last message of every matching topic', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.snapshot('devices/+deviceId/temperature').subscribe(snapshot => {
+        if (snapshot.size < 2) return
+        expect(Array.from(snapshot.keys())).toEqual([
+          'devices/1/temperature',
+          'devices/2/temperature'
+        ])
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => {
+        connection.publish('devices/1/temperature', 20)
+        connection.publish('devices/2/temperature', 22)
+      })
+    })
+  })
+})
+
+describe('deserialization errors', () => {
+  it('skips malformed payloads and emits them on errors$', done => {
+    expect.assertions(4)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.errors$.subscribe(error => {
+        expect(error).toBeInstanceOf(DeserializationError)
+        const { topic, payload } = error as DeserializationError
+        expect(topic).toBe('devices/1')
+        expect(payload.toString()).toBe('{broken')
+      })
+      connection.topic('devices/+').subscribe(({ message }) => {
+        expect(message).toEqual({ status: 'on' })
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => {
+        connection.topic('devices/1', { raw: true }).publish(Buffer.from('{broken'))
+        connection.publish('devices/1', { status: 'on' })
+      })
+    })
+  })
+
+  it('does not report payloads the subject cannot deserialize but its topic can', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject({ deadLetterTopic: 'dead-letters' })
+      connection.errors$.subscribe(error => done.fail(error))
+      connection.subscribe(({ topic }) => expect(topic).toBe('firmware/version'))
+      connection.topic('firmware/#', { raw: true }).subscribe(({ topic }) => {
+        if (topic !== 'firmware/version') return
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => {
+        broker.publish('firmware/image', Buffer.from([0xff]))
+        broker.publish('firmware/version', 2)
+      })
+    })
+  })
+
+  it('republishes malformed payloads on the dead letter topic', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = broker.subject({
+        deadLetterTopic: 'dead-letters'
+      })
+      connection.topic('devices/+').subscribe()
+      connection.topic('dead-letters', { raw: true }).subscribe(({ message }) => {
+        expect(message.toString()).toBe('{broken')
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(({ filter: topic }) => {
+        if (topic !== 'devices/+') return
+        connection.topic('devices/1', { raw: true }).publish(Buffer.from('{broken'))
+      })
+    })
+  })
+})
+
+describe('payload validation', () => {
+  const isReading = (value: any): value is { value: number } =>
+    value instanceof Object && typeof value.value === 'number'
+
+  it('skips invalid inbound messages and emits them on rejections$', done => {
+    expect.assertions(3)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      connection.rejections$.subscribe(error => {
+        expect(error).toBeInstanceOf(ValidationError)
+        expect(error.direction).toBe('inbound')
+      })
+      connection.topic('sensors/+', { validator: isReading }).subscribe(({ message }) => {
+        expect(message.value).toBe(21.5)
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => {
+        connection.publish('sensors/1', { value: 'warm' })
+        connection.publish('sensors/1', { value: 21.5 })
+      })
+    })
+  })
+
+  it('rejects invalid outbound messages', done => {
+    expect.assertions(2)
+    const broker = startBroker(() => {
+      let connection = broker.subject({
+        validators: { 'sensors/#': { type: 'object', required: ['value'] } }
+      })
+      connection.publish('sensors/1', {}).subscribe({
+        error: error => {
+          expect(error).toBeInstanceOf(ValidationError)
+          expect(error.message).toBe(
+            'INVALIDPAYLOAD: Invalid outbound message on sensors/1: $.value is required'
+          )
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('rejects messages a type guard throws on and keeps the subject working', done => {
+    expect.assertions(4)
+    const isPositive = (value: any): value is { value: number } => value.value > 0
+    const broker = startBroker(() => {
+      let connection = broker.subject({ validators: { 'sensors/#': isPositive } })
+      connection.rejections$.subscribe(({ direction }) => expect(direction).toBeDefined())
+      connection.publish('sensors/1', null).subscribe({
+        error: error => expect(error).toBeInstanceOf(ValidationError)
+      })
+      connection.topic('sensors/+').subscribe(({ message }) => {
+        expect(message.value).toBe(21.5)
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => {
+        broker.publish('sensors/1', null)
+        connection.publish('sensors/1', { value: 21.5 })
+      })
+    })
+  })
+})
+
+describe('error codes', () => {
+  it('emits a ConnectionError if the broker cannot be reached', done => {
+    expect.assertions(2)
+    new MQTTSubject(`mqtt://localhost:${1234}`).subscribe({
+      error: error => {
+        expect(error).toBeInstanceOf(ConnectionError)
+        expect(error.code).toBe('CONNECTIONFAILED')
+        done()
+      }
+    })
+  })
+
+  it('emits an AuthenticationError with the CONNACK reason code', done => {
+    expect.assertions(3)
+    const broker = startBroker(
+      () => {
+        broker.subject().subscribe({
+          error: error => {
+            expect(error).toBeInstanceOf(AuthenticationError)
+            expect(error.code).toBe('AUTHFAILED')
+            expect(error.reasonCode).toBe(5)
+            broker.close()
+            done()
+          }
+        })
+      },
+      noop,
+      noop,
+      { authenticate: () => false }
+    )
+  })
+
+  it('errors publish with a PublishError', done => {
+    expect.assertions(3)
+    const broker = startBroker(() => {
+      broker.pause()
+      let connection = broker.subject({ publishTimeout: 1 })
+      connection.publish('topic', 'message', { qos: 1 }).subscribe({
+        error: error => {
+          expect(error).toBeInstanceOf(PublishError)
+          expect(error.code).toBe('PUBLISHTIMEOUT')
+          expect(error.topic).toBe('topic')
+          connection.complete()
+          broker.close()
+          done()
+        }
+      })
+    })
+  })
+
+  it('emits a SerializationError for messages sent with next() and keeps sending', done => {
+    expect.assertions(3)
+    const broker = startBroker(() => {
+      let connection = broker.subject()
+      let lamp = connection.topic('lamps/kitchen', { serializer: stringCodec.serializer })
+      connection.errors$.subscribe(error => {
+        expect(error).toBeInstanceOf(SerializationError)
+        expect(error.code).toBe('SERIALIZATIONFAILED')
+      })
+      lamp.next({ topic: 'lamps/kitchen', message: (null as unknown) as string })
+      lamp.next({ topic: 'lamps/kitchen', message: 'on' })
+      broker.expectPublished('lamps/kitchen', Buffer.from('on')).then(() => {
+        connection.complete()
+        connection.state$.pipe(skipWhile(({ status }) => status !== 'closed')).subscribe({
+          next: ({ status }) => expect(status).toBe('closed'),
+          complete: () => {
+            broker.close()
+            done()
+          }
+        })
+      })
+    })
+  })
+})
+
+describe('injected client', () => {
+  it('uses a client of the config and keeps it connected after completing', done => {
+    expect.assertions(3)
+    const broker = startBroker(() => {
+      const client = broker.client()
+      client.on('connect', () => {
+        let connection = new MQTTSubject({ url: '', client })
+        connection.topic('shared/client').subscribe(({ message }) => {
+          expect(message).toBe('message')
+          connection.complete()
+          expect(client.connected).toBe(true)
+          expect(client.listenerCount('message')).toBe(0)
+          client.end()
+          broker.close()
+          done()
+        })
+        broker.subscribed$.subscribe(() => connection.publish('shared/client', 'message'))
+      })
+    })
+  })
+
+  it('throws if reconnect is combined with a client that reconnects on its own', () => {
+    const broker = new MemoryBroker()
+    const reconnecting = broker.client()
+    expect(() => new MQTTSubject({ url: '', client: reconnecting, reconnect: true })).toThrow(
+      new InvalidArgumentError(
+        'reconnect needs a client with reconnectPeriod: 0 and resubscribe: false'
+      )
+    )
+    const resubscribing = broker.client({ reconnectPeriod: 0 })
+    expect(() => new MQTTSubject({ url: '', client: resubscribing, reconnect: true })).toThrow(
+      InvalidArgumentError
+    )
+    reconnecting.end(true)
+    resubscribing.end(true)
+    broker.close()
+  })
+
+  it('reconnects a client of the config and resubscribes its topics', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      const client = broker.client({ reconnectPeriod: 0, resubscribe: false })
+      let connection = new MQTTSubject({ url: '', client, reconnect: { initialDelay: 10 } })
+      connection.topic('shared/client').subscribe(({ message }) => {
+        expect(message).toBe('message')
+        connection.complete()
+        client.end()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.pipe(take(1)).subscribe(() => {
+        broker.disconnect()
+        broker.subscribed$.pipe(take(1)).subscribe(() => broker.publish('shared/client', 'message'))
+      })
+    })
+  })
+
+  it('connects over the streams of a transport', done => {
+    expect.assertions(1)
+    const broker = startBroker(() => {
+      let connection = new MQTTSubject({ url: '', transport: broker.transport() })
+      connection.topic('transport').subscribe(({ message }) => {
+        expect(message).toBe('message')
+        connection.complete()
+        broker.close()
+        done()
+      })
+      broker.subscribed$.subscribe(() => connection.publish('transport', 'message'))
+    })
+  })
+})
+
+describe('connection pool', () => {
+  let broker: MemoryBroker
+  let server: Server
+  let url: string
+
+  // Subjects with a url connect over TCP, which the broker is served on
+  beforeEach(done => {
+    broker = new MemoryBroker()
+    server = createServer(socket => {
+      const stream = broker.transport()(undefined as any) as Duplex
+      socket.pipe(stream).pipe(socket)
+      socket.on('error', noop)
+      stream.on('close', () => socket.destroy())
+    })
+    server.listen(0, () => {
+      url = `mqtt://localhost:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterEach(done => {
+    broker.close()
+    server.close(() => done())
+  })
+
+  it('shares the connection of a subject with its piped subjects', done => {
+    expect.assertions(2)
+    const clientIds: string[] = []
+    broker.connected$.subscribe(clientId => clientIds.push(clientId))
+    const connection = connect(url)
+    connection
+      .pipe(map(({ topic }) => topic))
+      .pipe(take(1))
+      .subscribe(topic => {
+        expect(topic).toBe('lamps/kitchen')
+        expect(clientIds.length).toBe(1)
+        connection.complete()
+        done()
+      })
+    connection.topic('lamps/+').subscribe()
+    broker.expectSubscribed('lamps/+').then(() => broker.publish('lamps/kitchen', 'on'))
+  })
+
+  it('shares one connection between subjects with identical configs', done => {
+    expect.assertions(3)
+    const clientIds: string[] = []
+    broker.connected$.subscribe(clientId => clientIds.push(clientId))
+    const lamps = connect({ url, options: { clientId: 'pooled' } })
+    const sensors = connect({ url, options: { clientId: 'pooled' } })
+    lamps.topic('lamps/+').subscribe()
+    sensors.topic('sensors/+').subscribe(({ message }) => {
+      expect(message).toBe(21)
+      expect(clientIds).toEqual(['pooled'])
+      lamps.complete()
+      broker.disconnected$.pipe(take(1)).subscribe(clientId => {
+        expect(clientId).toBe('pooled')
+        done()
+      })
+      sensors.complete()
+    })
+    Promise.all([
+      broker.expectSubscribed('lamps/+'),
+      broker.expectSubscribed('sensors/+')
+    ]).then(() => broker.publish('sensors/kitchen', 21))
+  })
+
+  it('only emits the messages of its own topics on the subject of a shared connection', done => {
+    expect.assertions(2)
+    const lamps = connect({ url, options: { clientId: 'pooled' } })
+    const sensors = connect({ url, options: { clientId: 'pooled' } })
+    lamps.subscribe(({ topic }) => expect(topic).toBe('lamps/kitchen'))
+    lamps.topic('lamps/+').subscribe()
+    sensors.topic('sensors/+').subscribe(({ topic }) => {
+      expect(topic).toBe('sensors/kitchen')
+      broker.publish('lamps/kitchen', 'on')
+    })
+    lamps.topic('lamps/+').subscribe(() => {
+      lamps.complete()
+      sensors.complete()
+      done()
+    })
+    Promise.all([
+      broker.expectSubscribed('lamps/+'),
+      broker.expectSubscribed('sensors/+')
+    ]).then(() => broker.publish('sensors/kitchen', 21))
+  })
+
+  it('refuses shared subscriptions overlapping topics of other subjects of the connection', done => {
+    expect.assertions(2)
+    const monitor = connect(url)
+    const workers = connect(url)
+    monitor.topic('jobs/#').subscribe()
+    workers.topic('jobs/#', { shareGroup: 'workers' }).subscribe({
+      error: error => {
+        expect(error).toBeInstanceOf(SubscriptionConflictError)
+        expect(error.conflicting).toBe('jobs/#')
+        monitor.complete()
+        workers.complete()
+        done()
+      }
+    })
+  })
+
+  it('does not share connections of configs with functions', done => {
+    expect.assertions(1)
+    const clientIds: string[] = []
+    broker.connected$.subscribe(clientId => clientIds.push(clientId))
+    const transformWsUrl = (target: string) => target
+    const subjects = [
+      connect({ url, options: { transformWsUrl } }),
+      connect({ url, options: { transformWsUrl: (target: string) => `${target}/` } })
+    ]
+    broker.connected$.pipe(take(2)).subscribe({
+      complete: () => {
+        expect(clientIds.length).toBe(2)
+        subjects.forEach(subject => subject.complete())
+        done()
+      }
+    })
+  })
+
+  it('reconnects a shared connection once', done => {
+    expect.assertions(1)
+    const clientIds: string[] = []
+    broker.connected$.subscribe(clientId => clientIds.push(clientId))
+    const config = { url, reconnect: { initialDelay: 10, jitter: 0 } }
+    const subjects = [connect(config), connect(config)]
+    const reconnected = (subject: MQTTSubject) =>
+      subject.state$
+        .pipe(
+          map(({ status }) => status),
+          skipWhile(status => status !== 'reconnecting'),
+          first(status => status === 'connected')
+        )
+        .toPromise()
+    broker.connected$.pipe(take(1)).subscribe(() => {
+      Promise.all(subjects.map(reconnected))
+        .then(() => new Promise(resolve => setTimeout(resolve, 50)))
+        .then(() => {
+          expect(clientIds.length).toBe(2)
+          subjects.forEach(subject => subject.complete())
+          done()
+        })
+      setTimeout(() => broker.disconnect(), 10)
+    })
+  })
+
+  it('stays subscribed to filters other subjects of the connection observe', done => {
+    expect.assertions(1)
+    const first = connect(url)
+    const second = connect(url)
+    first.topic('lamps/+').subscribe()
+    second.topic('lamps/+').subscribe(({ message }) => {
+      expect(message).toBe('on')
+      second.complete()
+      done()
+    })
+    broker
+      .expectSubscribed('lamps/+')
+      .then(() => new Promise(resolve => setTimeout(resolve, 10)))
+      .then(() => {
+        first.complete()
+        // Gives an UNSUBSCRIBE time to reach the broker before the message
+        setTimeout(() => broker.publish('lamps/kitchen', 'on'), 10)
+      })
+  })
+})
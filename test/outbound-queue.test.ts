@@ -0,0 +1,83 @@
+import OutboundQueue from '../src/outbound-queue'
+
+const message = (topic: string, message = 0) => ({ topic, message })
+
+describe('OutboundQueue', () => {
+  it('drains queued messages in order', () => {
+    const queue = new OutboundQueue()
+    queue.push(message('a', 1))
+    queue.push(message('b', 2))
+    expect(queue.drain()).toEqual({ items: [message('a', 1), message('b', 2)], dropped: [] })
+    expect(queue.length).toBe(0)
+  })
+
+  it('emits the queue depth', () => {
+    const queue = new OutboundQueue()
+    const depths: number[] = []
+    queue.depth$.subscribe(depth => depths.push(depth))
+    queue.push(message('a'))
+    queue.push(message('b'))
+    queue.drain()
+    expect(depths).toEqual([0, 1, 2, 0])
+  })
+
+  it('drops the oldest message when full by default', () => {
+    const queue = new OutboundQueue({ capacity: 2 })
+    queue.push(message('a'))
+    queue.push(message('b'))
+    expect(queue.push(message('c'))).toEqual([{ item: message('a'), reason: 'overflow' }])
+    expect(queue.drain().items).toEqual([message('b'), message('c')])
+  })
+
+  it('drops the newest message when full with drop-newest', () => {
+    const queue = new OutboundQueue({ capacity: 1, overflow: 'drop-newest' })
+    queue.push(message('a'))
+    expect(queue.push(message('b'))).toEqual([{ item: message('b'), reason: 'overflow' }])
+    expect(queue.drain().items).toEqual([message('a')])
+  })
+
+  it('rejects the message when full with error', () => {
+    const queue = new OutboundQueue({ capacity: 1, overflow: 'error' })
+    queue.push(message('a'))
+    expect(queue.push(message('b'))).toEqual([{ item: message('b'), reason: 'full' }])
+    expect(queue.drain().items).toEqual([message('a')])
+  })
+
+  it('keeps the last value per topic with last-value-per-topic', () => {
+    const queue = new OutboundQueue({ capacity: 2, overflow: 'last-value-per-topic' })
+    queue.push(message('a', 1))
+    queue.push(message('b', 1))
+    expect(queue.push(message('a', 2))).toEqual([{ item: message('a', 1), reason: 'overflow' }])
+    expect(queue.drain().items).toEqual([message('b', 1), message('a', 2)])
+  })
+
+  it('drops the oldest message if all topics differ with last-value-per-topic', () => {
+    const queue = new OutboundQueue({ capacity: 1, overflow: 'last-value-per-topic' })
+    queue.push(message('a'))
+    expect(queue.push(message('b'))).toEqual([{ item: message('a'), reason: 'overflow' }])
+  })
+
+  it('expires messages after their ttl', () => {
+    const queue = new OutboundQueue({ ttl: 100 })
+    queue.push(message('a'), undefined, 0)
+    queue.push(message('b'), 1000, 0)
+    expect(queue.drain(500)).toEqual({
+      items: [message('b')],
+      dropped: [{ item: message('a'), reason: 'expired' }]
+    })
+  })
+
+  it('restores entries in front of the queue within its capacity', () => {
+    const queue = new OutboundQueue({ capacity: 2 })
+    queue.push(message('c'))
+    const dropped = queue.restore(
+      [
+        { item: message('a'), expires: Infinity },
+        { item: message('b'), expires: 0 }
+      ],
+      1
+    )
+    expect(dropped).toEqual([{ item: message('b'), reason: 'expired' }])
+    expect(queue.drain().items).toEqual([message('a'), message('c')])
+  })
+})
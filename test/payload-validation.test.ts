@@ -0,0 +1,102 @@
+import { Observable } from 'rxjs'
+import { MQTTSubject } from '../src/musquette'
+import {
+  MQTTJSONSchema,
+  schemaError,
+  validatePayload,
+  resolveValidator
+} from '../src/payload-validation'
+
+interface Reading {
+  value: number
+}
+
+const isReading = (value: unknown): value is Reading =>
+  value instanceof Object && typeof (value as Reading).value === 'number'
+
+const reading: MQTTJSONSchema = {
+  type: 'object',
+  properties: {
+    value: { type: 'number', minimum: -50, maximum: 150 },
+    unit: { enum: ['C', 'F'] },
+    tags: { type: 'array', items: { type: 'string', minLength: 1 } }
+  },
+  required: ['value'],
+  additionalProperties: false
+}
+
+describe('schemaError', () => {
+  it('accepts matching values', () => {
+    expect(schemaError(reading, { value: 21.5, unit: 'C', tags: ['kitchen'] })).toBe(null)
+  })
+  it('checks types', () => {
+    expect(schemaError(reading, [])).toBe('$ should be object')
+    expect(schemaError({ type: 'integer' }, 1.5)).toBe('$ should be integer')
+    expect(schemaError({ type: 'number' }, 1)).toBe(null)
+    expect(schemaError({ type: ['string', 'null'] }, null)).toBe(null)
+  })
+  it('checks properties', () => {
+    expect(schemaError(reading, {})).toBe('$.value is required')
+    expect(schemaError(reading, { value: 200 })).toBe('$.value should be <= 150')
+    expect(schemaError(reading, { value: 1, unit: 'K' })).toBe('$.unit should be one of ["C","F"]')
+    expect(schemaError(reading, { value: 1, room: 'kitchen' })).toBe('$.room is not allowed')
+  })
+  it('checks items', () => {
+    expect(schemaError(reading, { value: 1, tags: ['a', ''] })).toBe(
+      '$.tags[1] should have at least 1 characters'
+    )
+  })
+  it('checks strings', () => {
+    expect(schemaError({ pattern: '^[a-z]+$' }, 'Kitchen')).toBe('$ should match ^[a-z]+$')
+  })
+  it('checks combined schemas', () => {
+    const schema: MQTTJSONSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] }
+    expect(schemaError(schema, 1)).toBe(null)
+    expect(schemaError(schema, true)).toBe('$ should match a schema of anyOf')
+    expect(schemaError({ allOf: [{ minimum: 0 }, { maximum: 1 }] }, 2)).toBe('$ should be <= 1')
+  })
+})
+
+describe('validatePayload', () => {
+  it('calls type guards', () => {
+    expect(validatePayload(isReading, { value: 1 })).toBe(null)
+    expect(validatePayload(isReading, { value: '1' })).toBe('isReading rejected the payload')
+  })
+  it('checks schemas', () => {
+    expect(validatePayload(reading, { value: '1' })).toBe('$.value should be number')
+  })
+  it('rejects payloads validators throw on', () => {
+    const isPositive = (value: any): value is number => value.value > 0
+    expect(validatePayload(isPositive, null)).toMatch(/^isPositive threw: /)
+    expect(validatePayload({ pattern: '(' }, 'a')).toMatch(/^schema threw: Invalid regular/)
+  })
+})
+
+describe('resolveValidator', () => {
+  const rules = { 'sensors/#': reading }
+
+  it('prefers the override', () => {
+    expect(resolveValidator('sensors/1', rules, isReading)).toBe(isReading)
+  })
+  it('uses the first matching rule', () => {
+    expect(resolveValidator('sensors/1', rules)).toBe(reading)
+    expect(resolveValidator('devices/1', rules)).toBe(undefined)
+  })
+})
+
+describe('validator types', () => {
+  it('narrows the payload type with type guards', () => {
+    // Only compiled, never called
+    const usage = (mqtt: MQTTSubject) => {
+      const readings = mqtt.topic('sensors/+', { validator: isReading })
+      return new Observable<number>(observer =>
+        readings.subscribe(({ message }) => {
+          // @ts-expect-error
+          const unit: string = message.value
+          observer.next(message.value)
+        })
+      )
+    }
+    expect(typeof usage).toBe('function')
+  })
+})
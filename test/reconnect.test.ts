@@ -0,0 +1,47 @@
+import { exponentialBackoff, reconnectStrategy } from '../src/reconnect'
+
+describe('exponentialBackoff', () => {
+  it('grows the delay by the factor', () => {
+    const strategy = exponentialBackoff({ initialDelay: 100, factor: 2, jitter: 0 })
+    expect([1, 2, 3, 4].map(attempt => strategy(attempt))).toEqual([100, 200, 400, 800])
+  })
+
+  it('limits the delay to the max delay', () => {
+    const strategy = exponentialBackoff({ initialDelay: 100, maxDelay: 300, jitter: 0 })
+    expect(strategy(10)).toBe(300)
+  })
+
+  it('shortens the delay by up to the jitter', () => {
+    const strategy = exponentialBackoff({ initialDelay: 1000, jitter: 0.5 })
+    for (let i = 0; i < 20; i++) {
+      const delay = strategy(1) as number
+      expect(delay).toBeGreaterThanOrEqual(500)
+      expect(delay).toBeLessThanOrEqual(1000)
+    }
+  })
+})
+
+describe('reconnectStrategy', () => {
+  it('uses exponential backoff by default', () => {
+    const delay = reconnectStrategy(true)(1) as number
+    expect(delay).toBeGreaterThanOrEqual(500)
+    expect(delay).toBeLessThanOrEqual(1000)
+  })
+
+  it('gives up after the max attempts', () => {
+    const strategy = reconnectStrategy({ maxAttempts: 2, jitter: 0 })
+    expect(strategy(2)).toBe(2000)
+    expect(strategy(3)).toBe(null)
+  })
+
+  it('calls the custom strategy with the attempt and error', () => {
+    const custom = jest.fn(() => 42)
+    const error = new Error('ECONNREFUSED')
+    expect(reconnectStrategy({ strategy: custom })(3, error)).toBe(42)
+    expect(custom).toHaveBeenCalledWith(3, error)
+  })
+
+  it('gives up when the custom strategy returns null', () => {
+    expect(reconnectStrategy({ strategy: () => null })(1)).toBe(null)
+  })
+})
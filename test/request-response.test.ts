@@ -0,0 +1,19 @@
+import { of } from 'rxjs'
+import { toArray } from 'rxjs/operators'
+import { fromResult, isEnvelope } from '../src/request-response'
+
+describe('fromResult', () => {
+  it('wraps values, Promises and Observables', async () => {
+    expect(await fromResult(1).toPromise()).toBe(1)
+    expect(await fromResult(Promise.resolve(2)).toPromise()).toBe(2)
+    expect(await fromResult(of(3, 4)).pipe(toArray()).toPromise()).toEqual([3, 4])
+  })
+})
+
+describe('isEnvelope', () => {
+  it('detects enveloped requests', () => {
+    expect(isEnvelope({ correlationId: '1', responseTopic: 'replies', payload: 1 })).toBe(true)
+    expect(isEnvelope({ correlationId: '1' })).toBe(false)
+    expect(isEnvelope('request')).toBe(false)
+  })
+})
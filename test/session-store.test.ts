@@ -0,0 +1,76 @@
+import { MemoryStore, PacketStore, QueueStore } from '../src/session-store'
+import { StoreError } from '../src/errors'
+
+describe('MemoryStore', () => {
+  it('returns entries with the prefix ordered by key', async () => {
+    const store = new MemoryStore()
+    await store.put('queue/2', 'b')
+    await store.put('queue/1', 'a')
+    await store.put('outgoing/1', 'c')
+    await store.del('queue/2')
+    expect(await store.entries('queue/')).toEqual([['queue/1', 'a']])
+  })
+})
+
+describe('PacketStore', () => {
+  const packet = { cmd: 'publish', messageId: 42, topic: 'a', payload: Buffer.from('x'), qos: 1 }
+
+  it('writes packets through to the store', async () => {
+    const store = new MemoryStore()
+    const packets = new PacketStore(store, 'outgoing/')
+    packets.put(packet)
+    await packets.flushed()
+    const restored = new PacketStore(store, 'outgoing/')
+    await restored.load()
+    restored.get({ messageId: 42 }, (error: Error, stored: any) => {
+      expect(stored).toEqual(packet)
+      expect(Buffer.isBuffer(stored.payload)).toBe(true)
+    })
+  })
+
+  it('removes deleted packets from the store', async () => {
+    const store = new MemoryStore()
+    const packets = new PacketStore(store, 'outgoing/')
+    packets.put(packet)
+    packets.del({ messageId: 42 }, () => {})
+    await packets.flushed()
+    expect(await store.entries('outgoing/')).toEqual([])
+  })
+})
+
+describe('QueueStore', () => {
+  it('restores messages in the order they were added', async () => {
+    const store = new MemoryStore()
+    const queue = new QueueStore(store)
+    const first = { topic: 'a', payload: Buffer.from('1'), qos: 1 as 1, expires: Infinity }
+    const second = { topic: 'b', payload: Buffer.from('2'), retain: true, expires: 10 }
+    queue.add(first, 5)
+    const key = queue.add({ ...first, topic: 'removed' }, 5)
+    queue.add(second, 5)
+    queue.remove(key)
+    await queue.flushed()
+    const restored = await new QueueStore(store).load()
+    expect(restored.map(([key, message]) => message)).toEqual([
+      { ...first, retain: undefined },
+      { ...second, qos: undefined }
+    ])
+  })
+
+  it('reports failed writes and keeps writing', async () => {
+    const store = new MemoryStore()
+    const put = jest.spyOn(store, 'put').mockRejectedValueOnce(new Error('Disk full'))
+    const failed = jest.fn()
+    const queue = new QueueStore(store, failed)
+    const message = { topic: 'a', payload: Buffer.from('1'), expires: Infinity }
+    const key = queue.add(message, 5)
+    queue.add(message, 6)
+    await queue.flushed()
+    expect(failed).toHaveBeenCalledTimes(1)
+    const error: StoreError = failed.mock.calls[0][0]
+    expect(error).toBeInstanceOf(StoreError)
+    expect(error.key).toBe(key)
+    expect(error.message).toBe(`STOREFAILED: Could not write ${key} to the store: Disk full`)
+    expect(put).toHaveBeenCalledTimes(2)
+    expect((await store.entries('queue/')).length).toBe(1)
+  })
+})
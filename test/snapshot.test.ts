@@ -0,0 +1,92 @@
+import { Subject, VirtualTimeScheduler } from 'rxjs'
+import { snapshot, MQTTSnapshot } from '../src/snapshot'
+
+interface Inbound {
+  topic: string
+  message: any
+  packet?: { payload: Buffer }
+}
+
+const inbound = (topic: string, message: any): Inbound => ({
+  topic,
+  message,
+  packet: { payload: Buffer.from(JSON.stringify(message)) }
+})
+
+const cleared = (topic: string): Inbound => ({
+  topic,
+  message: undefined,
+  packet: { payload: Buffer.alloc(0) }
+})
+
+const values = (map: MQTTSnapshot<any>) => {
+  const result: { [topic: string]: any } = {}
+  map.forEach(({ message }, topic) => (result[topic] = message))
+  return result
+}
+
+describe('snapshot', () => {
+  let scheduler: VirtualTimeScheduler
+  let messages: Subject<Inbound>
+  let snapshots: MQTTSnapshot<any>[]
+
+  beforeEach(() => {
+    scheduler = new VirtualTimeScheduler()
+    messages = new Subject()
+    snapshots = []
+  })
+
+  it('keeps the last message per topic', () => {
+    messages.pipe(snapshot('devices/+/temperature')).subscribe(map => snapshots.push(map))
+    messages.next(inbound('devices/1/temperature', 20))
+    messages.next(inbound('devices/2/temperature', 22))
+    messages.next(inbound('devices/1/temperature', 21))
+    expect(snapshots.map(values)).toEqual([
+      {},
+      { 'devices/1/temperature': 20 },
+      { 'devices/1/temperature': 20, 'devices/2/temperature': 22 },
+      { 'devices/1/temperature': 21, 'devices/2/temperature': 22 }
+    ])
+    expect(snapshots[3].get('devices/2/temperature')!.captures).toEqual(['2'])
+  })
+
+  it('emits a new map on every change', () => {
+    messages.pipe(snapshot('devices/#')).subscribe(map => snapshots.push(map))
+    messages.next(inbound('devices/1', 'on'))
+    expect(snapshots[0]).not.toBe(snapshots[1])
+    expect(snapshots[0].size).toBe(0)
+  })
+
+  it('removes topics on an empty payload', () => {
+    messages.pipe(snapshot('devices/+')).subscribe(map => snapshots.push(map))
+    messages.next(inbound('devices/1', 'on'))
+    messages.next(cleared('devices/1'))
+    messages.next(cleared('devices/2'))
+    expect(snapshots.map(values)).toEqual([{}, { 'devices/1': 'on' }, {}])
+  })
+
+  it('ignores topics not matching the filter', () => {
+    messages.pipe(snapshot('devices/+')).subscribe(map => snapshots.push(map))
+    messages.next(inbound('gateways/1', 'on'))
+    expect(snapshots.length).toBe(1)
+  })
+
+  it('evicts messages older than maxAge', () => {
+    messages
+      .pipe(snapshot('devices/+', { maxAge: 100 }, scheduler))
+      .subscribe(map => snapshots.push(map))
+    messages.next(inbound('devices/1', 'on'))
+    scheduler.schedule(() => messages.next(inbound('devices/2', 'off')), 50)
+    scheduler.schedule(() => messages.next(inbound('devices/2', 'on')), 120)
+    scheduler.flush()
+    expect(snapshots.map(values)).toEqual([
+      {},
+      { 'devices/1': 'on' },
+      { 'devices/1': 'on', 'devices/2': 'off' },
+      { 'devices/2': 'off' },
+      { 'devices/2': 'on' },
+      {}
+    ])
+    expect(scheduler.now()).toBe(220)
+  })
+})
@@ -0,0 +1,86 @@
+import {
+  MQTTSubject,
+  MQTTTopicPayload,
+  MQTTTopicSubjectMessage,
+  TopicName,
+  TopicMatches,
+  TopicParams
+} from '../src/musquette'
+import { Observable } from 'rxjs'
+import { map } from 'rxjs/operators'
+
+// The assertions are checked by the compiler, the tests only run them
+type Equal<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
+
+interface Command {
+  action: 'on' | 'off'
+}
+
+interface Topics {
+  'sensors/+/temperature': number
+  'devices/+deviceId/cmd': Command
+  'status/#': string
+}
+
+describe('topic map types', () => {
+  it('infers topic names from filters', () => {
+    const single: Equal<TopicName<'sensors/+/temperature'>, `sensors/${string}/temperature`> = true
+    const multi: Equal<TopicName<'status/#'>, `status/${string}`> = true
+    expect([single, multi]).toEqual([true, true])
+  })
+
+  it('matches topics level by level', () => {
+    const single: TopicMatches<'sensors/+/temperature', 'sensors/kitchen/temperature'> = true
+    const multi: TopicMatches<'status/#', 'status/a/b'> = true
+    const parent: TopicMatches<'status/#', 'status'> = true
+    const deeper: TopicMatches<'sensors/+/temperature', 'sensors/a/b/temperature'> = false
+    expect([single, multi, parent, deeper]).toEqual([true, true, true, false])
+  })
+
+  it('resolves payload types of topics and filters', () => {
+    const topic: Equal<MQTTTopicPayload<Topics, 'sensors/kitchen/temperature'>, number> = true
+    const key: Equal<MQTTTopicPayload<Topics, 'devices/+deviceId/cmd'>, Command> = true
+    const covering: Equal<MQTTTopicPayload<Topics, 'devices/#'>, Command> = true
+    const unknown: Equal<MQTTTopicPayload<Topics, 'lights/kitchen'>, never> = true
+    const any: Equal<MQTTTopicPayload<Topics, string>, number | Command | string> = true
+    const plain: Equal<MQTTTopicPayload<Buffer, 'lights/kitchen'>, Buffer> = true
+    expect([topic, key, covering, unknown, any, plain].every(Boolean)).toBe(true)
+  })
+
+  it('types the params of named wildcards', () => {
+    const named: Equal<
+      TopicParams<'devices/+deviceId/#rest'>,
+      { deviceId: string; rest: string }
+    > = true
+    expect(named).toBe(true)
+  })
+
+  it('requires params on messages of filters with named wildcards only', () => {
+    type Params<F extends string> = MQTTTopicSubjectMessage<number, TopicParams<F>>['params']
+    const named: Equal<Params<'devices/+deviceId/cmd'>, { deviceId: string }> = true
+    const unnamed: Equal<Params<'devices/+/cmd'>, {} | undefined> = true
+    expect([named, unnamed]).toEqual([true, true])
+  })
+
+  it('types topic subjects and publish', () => {
+    // Only compiled, never called
+    const usage = (subject: MQTTSubject<Topics>) => {
+      const temperatures: Observable<number> = subject
+        .topic('sensors/+/temperature')
+        .pipe(map(({ message }) => message))
+      const deviceIds: Observable<string> = subject
+        .topic('devices/+deviceId/cmd')
+        .pipe(map(({ message, params }) => `${params.deviceId}: ${message.action}`))
+      subject.publish('sensors/kitchen/temperature', 21.5)
+      subject.publish('devices/lamp/cmd', { action: 'on' })
+      // @ts-expect-error
+      subject.publish('sensors/kitchen/temperature', 'warm')
+      // @ts-expect-error
+      subject.publish('lights/kitchen', 1)
+      // @ts-expect-error
+      subject.topic('devices/lamp/cmd').publish({ action: 'dim' })
+      return [temperatures, deviceIds]
+    }
+    expect(typeof usage).toBe('function')
+  })
+})
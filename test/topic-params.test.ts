@@ -0,0 +1,33 @@
+import { parseTopicPattern, hasParams, topicParams } from '../src/topic-params'
+
+describe('parseTopicPattern', () => {
+  it('replaces named wildcards with MQTT wildcards', () => {
+    expect(parseTopicPattern('sites/+site/devices/+deviceId/#rest')).toEqual({
+      filter: 'sites/+/devices/+/#',
+      names: ['site', 'deviceId', 'rest']
+    })
+  })
+  it('keeps unnamed wildcards', () => {
+    const pattern = parseTopicPattern('sites/+/devices/+deviceId')
+    expect(pattern).toEqual({ filter: 'sites/+/devices/+', names: [undefined, 'deviceId'] })
+    expect(hasParams(pattern)).toBe(true)
+    expect(hasParams(parseTopicPattern('sites/+/#'))).toBe(false)
+  })
+})
+
+describe('topicParams', () => {
+  const pattern = parseTopicPattern('sites/+site/devices/+/#rest')
+
+  it('captures the named levels', () => {
+    expect(topicParams('sites/berlin/devices/42/sensors/temperature', pattern)).toEqual({
+      site: 'berlin',
+      rest: 'sensors/temperature'
+    })
+  })
+  it('captures an empty rest if # matches the parent level', () => {
+    expect(topicParams('sites/berlin/devices/42', pattern)).toEqual({ site: 'berlin', rest: '' })
+  })
+  it('is null if the topic does not match', () => {
+    expect(topicParams('sites/berlin/gateways/42/status', pattern)).toBe(null)
+  })
+})
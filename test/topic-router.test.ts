@@ -0,0 +1,41 @@
+import TopicRouter from '../src/topic-router'
+
+const message = (topic: string) => ({ topic, message: topic })
+
+describe('TopicRouter', () => {
+  it('emits all messages to subscribers of the subject', () => {
+    const router = new TopicRouter<{ topic: string; message: string }>()
+    const received: string[] = []
+    router.subscribe(({ topic }) => received.push(topic))
+    router.next(message('a'))
+    router.next(message('b'))
+    expect(received).toEqual(['a', 'b'])
+  })
+
+  it('routes messages to subscribers of matching filters', () => {
+    const router = new TopicRouter<{ topic: string; message: string }>()
+    const received: string[] = []
+    const subscription = router.route('a/+').subscribe(({ topic }) => received.push(topic))
+    router.next(message('a/b'))
+    router.next(message('b/b'))
+    subscription.unsubscribe()
+    router.next(message('a/c'))
+    expect(received).toEqual(['a/b'])
+  })
+
+  it('errors and completes routed subscribers', () => {
+    const errored = new TopicRouter<{ topic: string }>()
+    const error = jest.fn()
+    errored.route('#').subscribe({ error })
+    errored.error(new Error('failed'))
+    errored.route('#').subscribe({ error })
+    expect(error).toHaveBeenCalledTimes(2)
+
+    const completed = new TopicRouter<{ topic: string }>()
+    const complete = jest.fn()
+    completed.route('#').subscribe({ complete })
+    completed.complete()
+    completed.route('#').subscribe({ complete })
+    expect(complete).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,184 @@
+import TopicSubscriptions from '../src/topic-subscriptions'
+
+const options = { qos: 0, noLocal: false, retainAsPublished: false, retainHandling: 0 }
+
+describe('TopicSubscriptions', () => {
+  it('subscribes a filter once for all of its observers', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/b')
+    expect(topics.sync()).toEqual({ subscribe: { 'a/b': options }, unsubscribe: [] })
+    topics.add('a/b')
+    expect(topics.sync()).toEqual({ subscribe: {}, unsubscribe: [] })
+  })
+
+  it('unsubscribes a filter when its last observer is removed', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/b')
+    topics.add('a/b')
+    topics.sync()
+    topics.remove('a/b')
+    expect(topics.sync()).toEqual({ subscribe: {}, unsubscribe: [] })
+    topics.remove('a/b')
+    expect(topics.sync()).toEqual({ subscribe: {}, unsubscribe: ['a/b'] })
+    expect(topics.filters()).toEqual([])
+  })
+
+  it('does not subscribe filters covered by another filter', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/#')
+    topics.add('a/+/c')
+    expect(topics.sync()).toEqual({ subscribe: { 'a/#': options }, unsubscribe: [] })
+  })
+
+  it('subscribes covered filters when the covering filter is removed', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/b')
+    topics.sync()
+    topics.add('a/#')
+    expect(topics.sync()).toEqual({ subscribe: { 'a/#': options }, unsubscribe: ['a/b'] })
+    topics.remove('a/#')
+    expect(topics.sync()).toEqual({ subscribe: { 'a/b': options }, unsubscribe: ['a/#'] })
+  })
+
+  it('subscribes covered filters on their own when the covering filter is rejected', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/#')
+    topics.add('a/b')
+    topics.sync()
+    topics.reject('a/#')
+    expect(topics.sync()).toEqual({ subscribe: { 'a/b': options }, unsubscribe: [] })
+    expect(topics.served('a/#')).toEqual(['a/#'])
+    topics.add('a/c')
+    expect(topics.sync()).toEqual({ subscribe: { 'a/c': options }, unsubscribe: [] })
+    // The rejected filter is tried again and covers its filters meanwhile
+    topics.reset()
+    expect(topics.sync()).toEqual({ subscribe: { 'a/#': options }, unsubscribe: [] })
+  })
+
+  it('subscribes a filter again after its subscription failed', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/b')
+    topics.sync()
+    topics.failed('a/b')
+    expect(topics.sync()).toEqual({ subscribe: { 'a/b': options }, unsubscribe: [] })
+    topics.failed('a/b')
+    topics.remove('a/b')
+    expect(topics.sync()).toEqual({ subscribe: {}, unsubscribe: [] })
+  })
+
+  it('subscribes all effective filters again after a reset', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/b')
+    topics.add('c')
+    topics.sync()
+    topics.reset()
+    expect(topics.sync()).toEqual({ subscribe: { 'a/b': options, c: options }, unsubscribe: [] })
+  })
+
+  it('subscribes with the highest QoS of all observers of a filter', () => {
+    const topics = new TopicSubscriptions()
+    const qos1 = { qos: 1 as const }
+    topics.add('a/b')
+    topics.add('a/b', qos1)
+    expect(topics.sync().subscribe).toEqual({ 'a/b': { ...options, qos: 1 } })
+    topics.remove('a/b', qos1)
+    expect(topics.sync().subscribe).toEqual({ 'a/b': options })
+  })
+
+  it('merges the flags of all observers of a filter', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/b', { noLocal: true, retainHandling: 2 })
+    expect(topics.options('a/b')).toEqual({ ...options, noLocal: true, retainHandling: 2 })
+    topics.add('a/b', { retainAsPublished: true })
+    expect(topics.options('a/b')).toEqual({ ...options, retainAsPublished: true })
+  })
+
+  it('does not cover filters with another subscription identifier', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/#', { subscriptionIdentifier: 1 })
+    topics.add('a/b', { subscriptionIdentifier: 2 })
+    topics.add('a/c', { subscriptionIdentifier: 1 })
+    topics.add('a/c')
+    expect(topics.effective()).toEqual(['a/#', 'a/b'])
+    expect(topics.options('a/c')).toEqual({ ...options, subscriptionIdentifier: 1 })
+  })
+
+  it('does not cover filters with a higher QoS', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/#')
+    topics.add('a/b', { qos: 2 })
+    expect(topics.effective()).toEqual(['a/#', 'a/b'])
+    expect(topics.serving('a/b')).toBe('a/b')
+    expect(topics.serving('a/c')).toBe(undefined)
+  })
+
+  it('returns the filter a covered filter is served by', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/#', { qos: 1 })
+    topics.add('a/b')
+    expect(topics.serving('a/b')).toBe('a/#')
+  })
+
+  it('returns the filters an effective filter serves', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/#', { qos: 1 })
+    topics.add('a/+', { qos: 1 })
+    topics.add('a/b')
+    topics.add('a/c', { qos: 2 })
+    expect(topics.served('a/#').sort()).toEqual(['a/#', 'a/+', 'a/b'])
+    expect(topics.served('a/c')).toEqual(['a/c'])
+    expect(topics.served('a/+')).toEqual([])
+  })
+
+  it('does not cover shared subscriptions or filters with them', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('#')
+    topics.add('$share/workers/jobs/#')
+    topics.add('$share/workers/#')
+    topics.add('jobs/1')
+    expect(topics.effective()).toEqual(['#', '$share/workers/jobs/#', '$share/workers/#'])
+  })
+
+  it('matches topics against observed and shared filters', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('a/+')
+    topics.add('$share/workers/jobs/#')
+    expect(topics.matches('a/b')).toBe(true)
+    expect(topics.matches('jobs/1')).toBe(true)
+    expect(topics.matches('b')).toBe(false)
+    topics.remove('a/+')
+    expect(topics.matches('a/b')).toBe(false)
+  })
+
+  it('returns the observed filters overlapping a shared filter', () => {
+    const topics = new TopicSubscriptions()
+    topics.add('$share/workers/jobs/#')
+    topics.add('lamps/+')
+    expect(topics.conflicting('jobs/1')).toBe('$share/workers/jobs/#')
+    expect(topics.conflicting('$share/workers/jobs/#')).toBe(undefined)
+    expect(topics.conflicting('$share/others/lamps/kitchen')).toBe('lamps/+')
+    topics.remove('$share/workers/jobs/#')
+    expect(topics.conflicting('jobs/1')).toBe(undefined)
+  })
+
+  it('keeps up with thousands of filters added and removed one at a time', () => {
+    const topics = new TopicSubscriptions()
+    const filters = Array.from({ length: 5000 }, (_, i) => `sensors/${i}/temperature`)
+    filters.forEach(filter => {
+      topics.add(filter)
+      expect(Object.keys(topics.sync().subscribe)).toEqual([filter])
+    })
+    topics.add('sensors/#')
+    const covered = topics.sync()
+    expect(covered.subscribe).toEqual({ 'sensors/#': options })
+    expect(covered.unsubscribe.length).toBe(5000)
+    expect(topics.serving('sensors/1/temperature')).toBe('sensors/#')
+    topics.remove('sensors/#')
+    expect(Object.keys(topics.sync().subscribe).length).toBe(5000)
+    filters.forEach(filter => {
+      topics.remove(filter)
+      expect(topics.sync().unsubscribe).toEqual([filter])
+    })
+    expect(topics.filters()).toEqual([])
+  })
+})
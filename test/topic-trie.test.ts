@@ -0,0 +1,94 @@
+import TopicTrie from '../src/topic-trie'
+import mqttWildcard from '../src/mqtt-wildcard'
+
+const matching = (trie: TopicTrie<string>, topic: string) => trie.match(topic).sort()
+
+describe('TopicTrie', () => {
+  it('matches exact filters', () => {
+    const trie = new TopicTrie<string>()
+    trie.add('a/b', 'ab')
+    trie.add('a/c', 'ac')
+    expect(matching(trie, 'a/b')).toEqual(['ab'])
+    expect(matching(trie, 'a')).toEqual([])
+    expect(matching(trie, 'a/b/c')).toEqual([])
+  })
+
+  it('matches single and multi level wildcards', () => {
+    const trie = new TopicTrie<string>()
+    trie.add('a/+', 'a+')
+    trie.add('a/#', 'a#')
+    trie.add('+/+/c', '++c')
+    trie.add('#', '#')
+    expect(matching(trie, 'a/b')).toEqual(['#', 'a#', 'a+'])
+    expect(matching(trie, 'a/b/c')).toEqual(['#', '++c', 'a#'])
+    expect(matching(trie, 'a')).toEqual(['#', 'a#'])
+  })
+
+  it('does not match $ topics with wildcards at the first level', () => {
+    const trie = new TopicTrie<string>()
+    trie.add('#', '#')
+    trie.add('+/broker', '+broker')
+    trie.add('$SYS/#', '$SYS#')
+    trie.add('$SYS/+', '$SYS+')
+    expect(matching(trie, '$SYS/broker')).toEqual(['$SYS#', '$SYS+'])
+  })
+
+  it('keeps a value per add and prunes removed filters', () => {
+    const trie = new TopicTrie<string>()
+    trie.add('a/b', 'first')
+    trie.add('a/b', 'second')
+    expect(trie.size).toBe(2)
+    expect(trie.remove('a/b', 'first')).toBe(true)
+    expect(trie.remove('a/b', 'first')).toBe(false)
+    expect(matching(trie, 'a/b')).toEqual(['second'])
+    trie.remove('a/b', 'second')
+    expect(trie.size).toBe(0)
+    expect(trie.values()).toEqual([])
+    expect(trie.within('#')).toEqual([])
+  })
+
+  it('finds the filters a filter may cover', () => {
+    const trie = new TopicTrie<string>()
+    ;['a', 'a/b', 'a/+', 'a/#', 'a/b/c', 'b/c'].forEach(filter => trie.add(filter, filter))
+    const within = (filter: string) => trie.within(filter).sort()
+    expect(within('a/#')).toEqual(['a', 'a/#', 'a/+', 'a/b', 'a/b/c'])
+    expect(within('a/+')).toEqual(['a/+', 'a/b'])
+    expect(within('+/c')).toEqual(['b/c'])
+    expect(within('a/b')).toEqual(['a/b'])
+  })
+
+  it('looks up as many nodes per message whatever the number of filters', () => {
+    // Dispatch cost in node lookups, tools/benchmark-topic-trie.ts times it
+    const lookups = (count: number, topic: string) => {
+      const trie = new TopicTrie<string>()
+      for (let device = 0; device < count; device++) {
+        trie.add(`plant/${device % 10}/devices/${device}/${device % 2 ? '+' : 'temp'}`, 'x')
+      }
+      const get = jest.spyOn(Map.prototype, 'get')
+      try {
+        trie.match(topic)
+        return get.mock.calls.length
+      } finally {
+        get.mockRestore()
+      }
+    }
+    const topic = 'plant/1/devices/1/humidity'
+    const few = lookups(50, topic)
+    expect(lookups(500, topic)).toBe(few)
+    expect(lookups(5000, topic)).toBe(few)
+    // At most a `#`, a `+` and an exact child per level
+    expect(few).toBeLessThanOrEqual(3 * (topic.split('/').length + 1))
+  })
+
+  it('matches like mqttWildcard', () => {
+    const filters = ['#', '+', 'a', 'a/#', 'a/+', 'a/b', '+/b', 'a/+/c', '+/+/+', 'a/b/#', '$SYS/#']
+    const topics = ['a', 'b', 'a/b', 'a/c', 'a/b/c', 'b/b', 'a/b/c/d', '$SYS/x', 'a/', '/b']
+    const trie = new TopicTrie<string>()
+    filters.forEach(filter => trie.add(filter, filter))
+    topics.forEach(topic =>
+      expect(matching(trie, topic)).toEqual(
+        filters.filter(filter => mqttWildcard(topic, filter) !== null).sort()
+      )
+    )
+  })
+})
@@ -0,0 +1,57 @@
+import { validateTopic, validateFilter } from '../src/topic-validation'
+import { InvalidTopicError } from '../src/errors'
+
+describe('validateTopic', () => {
+  it('accepts topic names', () => {
+    expect(() => validateTopic('sensors/42/temperature')).not.toThrow()
+    expect(() => validateTopic('/')).not.toThrow()
+    expect(() => validateTopic('$SYS/broker/uptime')).not.toThrow()
+  })
+  it('rejects wildcards', () => {
+    expect(() => validateTopic('sensors/+/temperature')).toThrow(InvalidTopicError)
+    expect(() => validateTopic('sensors/#')).toThrow('INVALIDTOPIC')
+  })
+  it('rejects empty topics and null characters', () => {
+    expect(() => validateTopic('')).toThrow(InvalidTopicError)
+    expect(() => validateTopic('sensors/\u0000')).toThrow(InvalidTopicError)
+  })
+  it('rejects topics that are not valid UTF-8 or too long', () => {
+    expect(() => validateTopic('sensors/\uD800')).toThrow(InvalidTopicError)
+    expect(() => validateTopic('sensors/😀')).not.toThrow()
+    expect(() => validateTopic('a'.repeat(65536))).toThrow(InvalidTopicError)
+    expect(() => validateTopic('ä'.repeat(32768))).toThrow(InvalidTopicError)
+  })
+})
+
+describe('validateFilter', () => {
+  it('accepts topic filters', () => {
+    expect(() => validateFilter('#')).not.toThrow()
+    expect(() => validateFilter('+')).not.toThrow()
+    expect(() => validateFilter('sensors/+/temperature')).not.toThrow()
+    expect(() => validateFilter('sensors/#')).not.toThrow()
+    expect(() => validateFilter('+/+/#')).not.toThrow()
+  })
+  it('requires # to be the last level', () => {
+    expect(() => validateFilter('sensors/#/temperature')).toThrow(InvalidTopicError)
+    expect(() => validateFilter('sensors#')).toThrow(InvalidTopicError)
+  })
+  it('requires + to occupy a whole level', () => {
+    expect(() => validateFilter('sensors+/temperature')).toThrow(InvalidTopicError)
+    expect(() => validateFilter('sensors/++')).toThrow(InvalidTopicError)
+  })
+  it('validates shared subscriptions', () => {
+    expect(() => validateFilter('$share/workers/jobs/#')).not.toThrow()
+    expect(() => validateFilter('$share/workers/')).toThrow(InvalidTopicError)
+    expect(() => validateFilter('$share//jobs')).toThrow(InvalidTopicError)
+    expect(() => validateFilter('$share/work+/jobs')).toThrow(InvalidTopicError)
+    expect(() => validateFilter('$share/workers/jobs/#/1')).toThrow(InvalidTopicError)
+  })
+  it('exposes the topic and the reason', () => {
+    try {
+      validateFilter('a/#/b')
+    } catch (error) {
+      expect(error.topic).toBe('a/#/b')
+      expect(error.reason).toContain('#')
+    }
+  })
+})
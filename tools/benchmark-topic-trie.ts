@@ -0,0 +1,44 @@
+import TopicTrie from '../src/topic-trie'
+import mqttWildcard from '../src/mqtt-wildcard'
+
+// Thousands of topic subjects for the devices of a plant floor
+const filters: string[] = []
+for (let site = 0; site < 10; site++) {
+  for (let device = 0; device < 500; device++) {
+    filters.push(`plant/${site}/devices/${device}/${device % 2 ? '+' : 'temperature'}`)
+  }
+}
+const topics = filters.slice(0, 200).map(filter => filter.replace('+', 'humidity'))
+const rounds = 10
+
+const time = (run: () => void) => {
+  const start = process.hrtime()
+  for (let i = 0; i < rounds; i++) {
+    run()
+  }
+  const [seconds, nanoseconds] = process.hrtime(start)
+  return (seconds * 1e3 + nanoseconds / 1e6) / rounds
+}
+
+const dispatchWithTrie = (subscribed: string[]) => {
+  const trie = new TopicTrie<string>()
+  subscribed.forEach(filter => trie.add(filter, filter))
+  return time(() => topics.forEach(topic => trie.match(topic)))
+}
+
+const dispatchLinear = (subscribed: string[]) =>
+  time(() =>
+    topics.forEach(topic => subscribed.filter(filter => mqttWildcard(topic, filter) !== null))
+  )
+
+// Warm up
+dispatchWithTrie(filters)
+dispatchLinear(filters)
+
+console.log(`Dispatching ${topics.length} messages, milliseconds per round:`)
+;[50, 500, filters.length].forEach(count => {
+  const subscribed = filters.slice(0, count)
+  const trie = dispatchWithTrie(subscribed).toFixed(3)
+  const linear = dispatchLinear(subscribed).toFixed(3)
+  console.log(`${count} filters: trie ${trie}, every filter ${linear}`)
+})